@@ -0,0 +1,73 @@
+import React, { useId, useState } from 'react';
+import { ChevronDown, Eraser } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { BoilerplateCleanup, BoilerplateKind } from '@/utils/boilerplate';
+
+interface BoilerplatePreviewProps {
+  cleanup: BoilerplateCleanup;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+const KIND_LABELS: Record<BoilerplateKind, string> = {
+  header: 'Header',
+  footer: 'Footer',
+  page_number: 'Page no.',
+  watermark: 'Watermark'
+};
+
+const BoilerplatePreview: React.FC<BoilerplatePreviewProps> = ({
+  cleanup,
+  enabled,
+  onEnabledChange,
+  disabled = false
+}) => {
+  const id = useId();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id} className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <Eraser className="w-4 h-4 text-primary" />
+          Remove headers & footers
+        </Label>
+        <Switch
+          id={id}
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+          disabled={disabled}
+        />
+      </div>
+
+      <CollapsibleTrigger className="flex w-full items-center justify-between text-xs text-muted-foreground hover:text-foreground">
+        <span>
+          {cleanup.linesRemoved} repeated {cleanup.linesRemoved === 1 ? 'line' : 'lines'} found
+        </span>
+        <ChevronDown className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <ul className="space-y-1 rounded-md border border-border/50 p-2 max-h-40 overflow-y-auto">
+          {cleanup.removed.map(line => (
+            <li key={`${line.kind}:${line.text}`} className="flex items-center gap-2 text-xs">
+              <Badge variant="outline" className="shrink-0 px-1.5 py-0 text-[10px]">
+                {KIND_LABELS[line.kind]}
+              </Badge>
+              <span className={`truncate text-muted-foreground ${enabled ? 'line-through' : ''}`}>
+                {line.text}
+              </span>
+              <span className="ml-auto shrink-0 text-muted-foreground/70">×{line.pageCount}</span>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default BoilerplatePreview;
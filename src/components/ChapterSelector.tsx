@@ -0,0 +1,74 @@
+import React, { useId } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import type { DocumentChapter } from '@/utils/epubParser';
+
+interface ChapterSelectorProps {
+  chapters: DocumentChapter[];
+  selected: number[];
+  onChange: (selected: number[]) => void;
+  disabled?: boolean;
+}
+
+const ChapterSelector: React.FC<ChapterSelectorProps> = ({
+  chapters,
+  selected,
+  onChange,
+  disabled = false
+}) => {
+  const idPrefix = useId(); // Several selectors can be on screen, one per source
+  const allSelected = selected.length === chapters.length;
+
+  const toggleChapter = (chapterNumber: number, checked: boolean) => {
+    const next = checked
+      ? [...selected, chapterNumber]
+      : selected.filter(number => number !== chapterNumber);
+    onChange(next.sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-foreground">
+          Chapters ({selected.length}/{chapters.length})
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onChange(allSelected ? [] : chapters.map(chapter => chapter.chapterNumber))}
+          className="h-7 px-2 text-xs"
+        >
+          {allSelected ? 'Clear all' : 'Select all'}
+        </Button>
+      </div>
+
+      <ScrollArea className="h-48 rounded-md border border-border/50">
+        <div className="p-2 space-y-1">
+          {chapters.map(chapter => {
+            const id = `${idPrefix}-chapter-${chapter.chapterNumber}`;
+            return (
+              <label
+                key={chapter.chapterNumber}
+                htmlFor={id}
+                className="flex items-start gap-2 rounded px-2 py-1.5 text-sm cursor-pointer hover:bg-muted/50"
+              >
+                <Checkbox
+                  id={id}
+                  checked={selected.includes(chapter.chapterNumber)}
+                  disabled={disabled}
+                  onCheckedChange={(checked) => toggleChapter(chapter.chapterNumber, checked === true)}
+                  className="mt-0.5"
+                />
+                <span className="leading-snug text-muted-foreground">{chapter.title}</span>
+              </label>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ChapterSelector;
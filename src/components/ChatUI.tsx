@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Bot, User, Download, FileText, Copy, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import MathText from '@/components/MathText';
 
 interface Message {
   id: string;
@@ -171,7 +172,7 @@ const ChatUI: React.FC<ChatUIProps> = ({ messages, isTyping, onExport }) => {
 
                   <div className={`relative group ${message.type === 'user' ? 'chat-bubble-user' : 'chat-bubble-ai'}`}>
                     <div className="whitespace-pre-wrap break-words">
-                      {message.content}
+                      <MathText text={message.content} />
                     </div>
                     
                     <div className="flex items-center justify-between mt-2 pt-2 border-t border-border/20">
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { ChevronDown, CircleCheck, CircleDashed, Target } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { formatPageNumbers } from '@/utils/pdfParser';
+import type { CoverageReport, CoverageSection } from '@/utils/coveragePlanner';
+
+interface CoverageBarProps {
+  coverage: CoverageReport;
+}
+
+const CoverageBar: React.FC<CoverageBarProps> = ({ coverage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { sections } = coverage;
+  const uncovered = sections.filter(section => section.questionCount === 0);
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="space-y-2 rounded-lg border border-border/50 p-4 text-sm">
+      <CollapsibleTrigger className="flex w-full items-center justify-between gap-2 font-medium text-foreground">
+        <span className="flex items-center gap-2">
+          <Target className="w-4 h-4 text-primary" />
+          Coverage
+        </span>
+        <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+          {coverage.coveredSections} of {sections.length} {sections.length === 1 ? 'section' : 'sections'} · {Math.round(coverage.coveredShare * 100)}% of the text
+          <ChevronDown className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </span>
+      </CollapsibleTrigger>
+
+      {/* One segment per section, as wide as its share of the text */}
+      <div className="flex h-3 w-full gap-px overflow-hidden rounded-full bg-muted">
+        {sections.map((section, index) => (
+          <Tooltip key={`${section.label}_${index}`}>
+            <TooltipTrigger asChild>
+              <div
+                className={`h-full min-w-[2px] ${section.questionCount > 0 ? 'bg-primary' : 'bg-muted-foreground/20'}`}
+                style={{ flexGrow: Math.max(1, section.wordCount) }}
+              />
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="font-medium">{section.label}</p>
+              <p className="text-xs text-muted-foreground">{describeSection(section)}</p>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+
+      {uncovered.length > 0 && !isOpen && (
+        <p className="text-xs text-muted-foreground">
+          {uncovered.length} {uncovered.length === 1 ? 'section has' : 'sections have'} no questions
+        </p>
+      )}
+
+      <CollapsibleContent>
+        <ul className="space-y-1 text-xs">
+          {sections.map((section, index) => (
+            <li key={`${section.label}_${index}`} className="flex items-start justify-between gap-2">
+              <span className={`flex items-start gap-2 ${section.questionCount > 0 ? 'text-foreground' : 'text-muted-foreground'}`}>
+                {section.questionCount > 0
+                  ? <CircleCheck className="w-3 h-3 mt-0.5 shrink-0 text-green-600" />
+                  : <CircleDashed className="w-3 h-3 mt-0.5 shrink-0" />}
+                <span>{section.label}</span>
+              </span>
+              <span className="shrink-0 text-muted-foreground">{describeSection(section)}</span>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+/**
+ * Summarizes a section for the list and tooltip, e.g. "2 questions · Pages 4–9"
+ */
+const describeSection = (section: CoverageSection): string => {
+  const questions = section.questionCount === 0
+    ? 'No questions'
+    : `${section.questionCount} ${section.questionCount === 1 ? 'question' : 'questions'}`;
+  return section.pageNumbers.length > 0
+    ? `${questions} · ${formatPageNumbers(section.pageNumbers, section.pageUnit)}`
+    : questions;
+};
+
+export default CoverageBar;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { TriangleAlert, ChevronDown, CircleCheck, OctagonAlert, Stethoscope } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { getLanguageName } from '@/utils/language';
+import type { DocumentDiagnostics } from '@/utils/diagnostics';
+
+interface DiagnosticsReportProps {
+  diagnostics: DocumentDiagnostics;
+  pagesLabel: string; // "Pages", "Slides" or "Chapters"
+}
+
+const DiagnosticsReport: React.FC<DiagnosticsReportProps> = ({ diagnostics, pagesLabel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { warnings } = diagnostics;
+
+  const rows: [string, string][] = [
+    ['Language', diagnostics.language ? getLanguageName(diagnostics.language) : 'Unknown'],
+    ['Garbled words', formatShare(diagnostics.garbledShare)],
+    [`Words per ${pagesLabel.replace(/s$/, '').toLowerCase()}`,
+      `${diagnostics.wordsPerPage.median} (${diagnostics.wordsPerPage.min}–${diagnostics.wordsPerPage.max})`],
+    ['Image-only', `${diagnostics.imageOnlyPages.length}`],
+    ['Avg. sentence', `${diagnostics.averageSentenceWords} words`],
+    ...(diagnostics.readingEase !== undefined
+      ? [['Reading ease', `${Math.round(diagnostics.readingEase)} / 100`] as [string, string]]
+      : []),
+    ['Boilerplate', formatShare(diagnostics.boilerplateShare)]
+  ];
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="space-y-2">
+      <CollapsibleTrigger className="flex w-full items-center justify-between gap-2 text-sm font-medium text-foreground">
+        <span className="flex items-center gap-2">
+          <Stethoscope className="w-4 h-4 text-primary" />
+          Text quality
+        </span>
+        <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+          {warnings.length === 0 ? (
+            <>
+              <CircleCheck className="w-3 h-3 text-green-600" />
+              No issues
+            </>
+          ) : (
+            `${warnings.length} ${warnings.length === 1 ? 'issue' : 'issues'}`
+          )}
+          <ChevronDown className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </span>
+      </CollapsibleTrigger>
+
+      {warnings.length > 0 && (
+        <ul className="space-y-1">
+          {warnings.map(warning => (
+            <li
+              key={warning.message}
+              className={`flex items-start gap-2 text-xs ${warning.severity === 'error' ? 'text-destructive' : 'text-amber-600'}`}
+            >
+              {warning.severity === 'error'
+                ? <OctagonAlert className="w-3 h-3 mt-0.5 shrink-0" />
+                : <TriangleAlert className="w-3 h-3 mt-0.5 shrink-0" />}
+              <span>{warning.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <CollapsibleContent>
+        <dl className="space-y-1 rounded-md border border-border/50 p-2 text-xs">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between gap-2">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="font-medium">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const formatShare = (share: number): string => `${Math.round(share * 100)}%`;
+
+export default DiagnosticsReport;
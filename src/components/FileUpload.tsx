@@ -3,23 +3,28 @@ import { motion } from 'framer-motion';
 import { Upload, FileText, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { getDocumentFormat, SUPPORTED_EXTENSIONS } from '@/utils/documentParser';
+import type { DocumentFormat } from '@/utils/documentStructure';
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
   isProcessing: boolean;
+  compact?: boolean; // Small drop zone for adding documents to an existing session
+  statusText?: string | null; // Parsing progress, e.g. "Processing slide 3 of 24..."
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isProcessing }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isProcessing, compact = false, statusText }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedFormat, setSelectedFormat] = useState<DocumentFormat | null>(null);
   const { toast } = useToast();
 
   const validateFile = (file: File): boolean => {
-    if (file.type !== 'application/pdf') {
-      setError('Please upload a PDF file only');
+    if (!getDocumentFormat(file)) {
+      setError('Please upload a PDF, DOCX, PPTX, EPUB, Markdown, HTML or text file');
       toast({
         title: "Invalid file type",
-        description: "Please upload a PDF file only",
+        description: "Please upload a PDF, DOCX, PPTX, EPUB, Markdown, HTML or text file",
         variant: "destructive",
       });
       return false;
@@ -41,10 +46,12 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isProcessing }) =
 
   const handleFileSelect = useCallback((file: File) => {
     if (validateFile(file)) {
+      const format = getDocumentFormat(file);
+      setSelectedFormat(format);
       onFileUpload(file);
       toast({
         title: "File uploaded successfully",
-        description: "Processing your PDF...",
+        description: format === 'pptx' ? "Processing your slides..." : "Processing your document...",
       });
     }
   }, [onFileUpload, toast]);
@@ -84,66 +91,78 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isProcessing }) =
       className="w-full max-w-2xl mx-auto"
     >
       <div
-        className={`upload-area ${isDragOver ? 'dragover' : ''} ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
+        className={`upload-area ${compact ? 'p-4' : ''} ${isDragOver ? 'dragover' : ''} ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
         onDrop={handleDrop}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
       >
         <input
           type="file"
-          accept=".pdf"
+          accept={SUPPORTED_EXTENSIONS.join(',')}
           onChange={handleFileInputChange}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           disabled={isProcessing}
           id="file-upload"
         />
         
-        <motion.div
-          animate={isDragOver ? { scale: 1.05 } : { scale: 1 }}
-          transition={{ type: "spring", stiffness: 300, damping: 30 }}
-          className="flex flex-col items-center space-y-4"
-        >
-          <motion.div
-            animate={{
-              y: [0, -10, 0],
-            }}
-            transition={{
-              duration: 2,
-              repeat: Infinity,
-              ease: "easeInOut",
-            }}
-            className="relative"
-          >
-            <div className="w-16 h-16 rounded-full gradient-primary flex items-center justify-center shadow-glow">
-              <Upload className="w-8 h-8 text-primary-foreground" />
-            </div>
-          </motion.div>
-          
-          <div className="text-center space-y-2">
-            <h3 className="text-xl font-semibold text-foreground">
-              Upload Your PDF
-            </h3>
-            <p className="text-muted-foreground">
-              Drag and drop your PDF here, or{' '}
+        {compact ? (
+          <div className="flex items-center justify-center space-x-2 text-sm text-muted-foreground">
+            <Upload className="w-4 h-4 text-primary" />
+            <span>
+              Drop another document here or{' '}
               <label htmlFor="file-upload" className="text-primary hover:text-primary/80 cursor-pointer font-medium underline">
-                browse files
+                browse
               </label>
-            </p>
-            <p className="text-sm text-muted-foreground">
-              Maximum file size: 10MB
-            </p>
+            </span>
           </div>
-
+        ) : (
           <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.3 }}
-            className="flex items-center space-x-2 text-sm text-muted-foreground"
+            animate={isDragOver ? { scale: 1.05 } : { scale: 1 }}
+            transition={{ type: "spring", stiffness: 300, damping: 30 }}
+            className="flex flex-col items-center space-y-4"
           >
-            <FileText className="w-4 h-4" />
-            <span>PDF files only</span>
+            <motion.div
+              animate={{
+                y: [0, -10, 0],
+              }}
+              transition={{
+                duration: 2,
+                repeat: Infinity,
+                ease: "easeInOut",
+              }}
+              className="relative"
+            >
+              <div className="w-16 h-16 rounded-full gradient-primary flex items-center justify-center shadow-glow">
+                <Upload className="w-8 h-8 text-primary-foreground" />
+              </div>
+            </motion.div>
+            
+            <div className="text-center space-y-2">
+              <h3 className="text-xl font-semibold text-foreground">
+                Upload Your Document
+              </h3>
+              <p className="text-muted-foreground">
+                Drag and drop your PDF, Word document, slide deck or e-book here, or{' '}
+                <label htmlFor="file-upload" className="text-primary hover:text-primary/80 cursor-pointer font-medium underline">
+                  browse files
+                </label>
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Maximum file size: 10MB
+              </p>
+            </div>
+
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.3 }}
+              className="flex items-center space-x-2 text-sm text-muted-foreground"
+            >
+              <FileText className="w-4 h-4" />
+              <span>PDF, DOCX, PPTX, EPUB, MD, HTML and TXT files</span>
+            </motion.div>
           </motion.div>
-        </motion.div>
+        )}
       </div>
 
       {error && (
@@ -165,7 +184,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isProcessing }) =
         >
           <div className="inline-flex items-center space-x-2 text-primary">
             <div className="w-4 h-4 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
-            <span className="text-sm font-medium">Processing your PDF...</span>
+            <span className="text-sm font-medium">
+              {statusText ?? (selectedFormat === 'pptx' ? 'Processing your slides...' : 'Processing your document...')}
+            </span>
           </div>
         </motion.div>
       )}
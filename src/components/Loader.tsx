@@ -1,15 +1,21 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Brain, FileText, Sparkles } from 'lucide-react';
+import { Brain, FileText, Layers, Sparkles } from 'lucide-react';
+
+export type LoaderStage = 'uploading' | 'parsing' | 'chunking' | 'generating' | 'finishing';
+
+const STAGES: LoaderStage[] = ['uploading', 'parsing', 'chunking', 'generating', 'finishing'];
 
 interface LoaderProps {
   text?: string;
+  detail?: string | null; // Worker progress, e.g. "Processing page 3 of 24..."
   progress?: number;
-  stage?: 'uploading' | 'parsing' | 'generating' | 'finishing';
+  stage?: LoaderStage;
 }
 
 const Loader: React.FC<LoaderProps> = ({ 
   text = "Processing...", 
+  detail,
   progress = 0,
   stage = 'parsing'
 }) => {
@@ -19,6 +25,8 @@ const Loader: React.FC<LoaderProps> = ({
         return FileText;
       case 'parsing':
         return FileText;
+      case 'chunking':
+        return Layers;
       case 'generating':
         return Brain;
       case 'finishing':
@@ -34,6 +42,8 @@ const Loader: React.FC<LoaderProps> = ({
         return 'text-blue-500';
       case 'parsing':
         return 'text-yellow-500';
+      case 'chunking':
+        return 'text-orange-500';
       case 'generating':
         return 'text-purple-500';
       case 'finishing':
@@ -103,7 +113,7 @@ const Loader: React.FC<LoaderProps> = ({
           {text}
         </h3>
         <p className="text-sm text-muted-foreground">
-          This might take a few moments...
+          {detail ?? 'This might take a few moments...'}
         </p>
       </motion.div>
 
@@ -140,7 +150,7 @@ const Loader: React.FC<LoaderProps> = ({
         transition={{ delay: 0.4 }}
         className="flex items-center space-x-3"
       >
-        {['uploading', 'parsing', 'generating', 'finishing'].map((stageItem, index) => (
+        {STAGES.map((stageItem, index) => (
           <motion.div
             key={stageItem}
             className={`flex items-center space-x-1 ${
@@ -153,7 +163,7 @@ const Loader: React.FC<LoaderProps> = ({
               className={`w-2 h-2 rounded-full transition-colors ${
                 stage === stageItem 
                   ? 'bg-primary shadow-glow' 
-                  : index < ['uploading', 'parsing', 'generating', 'finishing'].indexOf(stage)
+                  : index < STAGES.indexOf(stage)
                   ? 'bg-success'
                   : 'bg-muted-foreground/30'
               }`}
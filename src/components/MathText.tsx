@@ -0,0 +1,20 @@
+import React, { useMemo } from 'react';
+import { hasMath } from '@/utils/math';
+import { renderMathToHtml } from '@/utils/mathRender';
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+}
+
+const MathText: React.FC<MathTextProps> = ({ text, className }) => {
+  const html = useMemo(() => (hasMath(text) ? renderMathToHtml(text) : null), [text]);
+
+  if (html === null) {
+    return <span className={className}>{text}</span>;
+  }
+  // renderMathToHtml escapes all text outside the formulas
+  return <span className={className} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default MathText;
@@ -0,0 +1,51 @@
+import React, { useId } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { parsePageRange } from '@/utils/pdfParser';
+import { getPageUnitLabel, type PageUnit } from '@/utils/documentStructure';
+
+interface PageRangeInputProps {
+  value: string;
+  totalPages: number;
+  unit: PageUnit;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const PageRangeInput: React.FC<PageRangeInputProps> = ({
+  value,
+  totalPages,
+  unit,
+  onChange,
+  disabled = false
+}) => {
+  const id = useId();
+  const { pageNumbers, error } = parsePageRange(value, totalPages);
+  const unitLabel = getPageUnitLabel(unit, true);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-sm font-medium text-foreground">
+        {unitLabel} to quiz on
+      </Label>
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={`All ${unitLabel.toLowerCase()} (e.g. 1-5, 9, 12-20)`}
+        disabled={disabled}
+        aria-invalid={error !== undefined}
+        className={`h-8 ${error ? 'border-destructive focus-visible:ring-destructive' : ''}`}
+      />
+      <p className={`text-xs ${error ? 'text-destructive' : 'text-muted-foreground'}`}>
+        {error
+          ? error
+          : value.trim()
+            ? `${pageNumbers.length} of ${totalPages} ${unitLabel.toLowerCase()} selected`
+            : `All ${totalPages} ${unitLabel.toLowerCase()}`}
+      </p>
+    </div>
+  );
+};
+
+export default PageRangeInput;
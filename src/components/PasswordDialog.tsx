@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface PasswordDialogProps {
+  open: boolean;
+  fileName: string;
+  attemptsRemaining: number;
+  isIncorrect: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+const PasswordDialog: React.FC<PasswordDialogProps> = ({
+  open,
+  fileName,
+  attemptsRemaining,
+  isIncorrect,
+  onSubmit,
+  onCancel
+}) => {
+  const [password, setPassword] = useState('');
+
+  // Never keep the password around between attempts
+  useEffect(() => {
+    setPassword('');
+  }, [open, attemptsRemaining]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length === 0) return;
+    onSubmit(password);
+    setPassword('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Lock className="w-5 h-5 text-primary" />
+              Password Required
+            </DialogTitle>
+            <DialogDescription>
+              "{fileName}" is password protected. Enter its password to extract the text.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-4">
+            <Label htmlFor="pdf-password">Password</Label>
+            <Input
+              id="pdf-password"
+              type="password"
+              autoComplete="off"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            {isIncorrect && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="w-4 h-4" />
+                Incorrect password. {attemptsRemaining} {attemptsRemaining === 1 ? 'attempt' : 'attempts'} remaining.
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={password.length === 0}
+              className="gradient-primary text-primary-foreground"
+            >
+              Unlock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PasswordDialog;
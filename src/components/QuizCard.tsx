@@ -1,8 +1,13 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { CheckCircle, XCircle, RotateCcw, Eye, EyeOff } from 'lucide-react';
+import { CheckCircle, XCircle, RotateCcw, Eye, EyeOff, BookOpen, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import MathText from '@/components/MathText';
+import { formatPageNumbers } from '@/utils/pdfParser';
+import type { DocumentTable, PageUnit } from '@/utils/documentStructure';
+import type { QuizMedia } from '@/utils/modelClient';
 
 interface Question {
   id: string;
@@ -11,6 +16,11 @@ interface Question {
   options?: string[];
   correct_answer: string | boolean;
   explanation?: string;
+  pageNumbers?: number[];
+  pageUnit?: PageUnit;
+  sourceName?: string;
+  table?: DocumentTable;
+  media?: QuizMedia;
 }
 
 interface QuizCardProps {
@@ -74,12 +84,26 @@ const QuizCard: React.FC<QuizCardProps> = ({
 
         {/* Question Type Badge */}
         <div className="flex items-center justify-between mb-4">
-          <Badge 
-            variant={question.type === 'mcq' ? 'default' : 'outline'}
-            className="transition-smooth"
-          >
-            {question.type === 'mcq' ? 'Multiple Choice' : 'True/False'}
-          </Badge>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge 
+              variant={question.type === 'mcq' ? 'default' : 'outline'}
+              className="transition-smooth"
+            >
+              {question.type === 'mcq' ? 'Multiple Choice' : 'True/False'}
+            </Badge>
+            {question.pageNumbers && question.pageNumbers.length > 0 && (
+              <Badge variant="outline" className="text-muted-foreground">
+                <BookOpen className="w-3 h-3 mr-1" />
+                {formatPageNumbers(question.pageNumbers, question.pageUnit)}
+              </Badge>
+            )}
+            {question.sourceName && (
+              <Badge variant="outline" className="text-muted-foreground max-w-[12rem]">
+                <FileText className="w-3 h-3 mr-1 shrink-0" />
+                <span className="truncate">{question.sourceName}</span>
+              </Badge>
+            )}
+          </div>
           
           {question.explanation && (
             <Button
@@ -100,9 +124,55 @@ const QuizCard: React.FC<QuizCardProps> = ({
           animate={{ opacity: 1 }}
           transition={{ delay: index * 0.1 + 0.2 }}
         >
-          {question.question}
+          <MathText text={question.question} />
         </motion.h3>
 
+        {/* Figure the question refers to */}
+        {question.media && (
+          <figure className="mb-6 rounded-lg border border-border/50 bg-white p-2">
+            <img
+              src={question.media.src}
+              alt={question.media.alt}
+              width={question.media.width}
+              height={question.media.height}
+              loading="lazy"
+              className="mx-auto h-auto max-h-96 w-auto max-w-full object-contain"
+            />
+            {question.media.caption && (
+              <figcaption className="mt-2 text-center text-xs text-muted-foreground">
+                {question.media.caption}
+              </figcaption>
+            )}
+          </figure>
+        )}
+
+        {/* Table the question refers to */}
+        {question.table && (
+          <div className="mb-6 rounded-lg border border-border/50 overflow-x-auto">
+            <Table>
+              {question.table.caption && (
+                <TableCaption className="mt-2 mb-2 text-xs">{question.table.caption}</TableCaption>
+              )}
+              <TableHeader>
+                <TableRow>
+                  {question.table.headers.map((header, headerIndex) => (
+                    <TableHead key={headerIndex} className="h-9 px-3">{header}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {question.table.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <TableCell key={cellIndex} className="px-3 py-2">{cell}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
         {/* Answer Options */}
         <div className="space-y-3 mb-6">
           {question.type === 'mcq' && question.options ? (
@@ -134,7 +204,7 @@ const QuizCard: React.FC<QuizCardProps> = ({
                   }`}
                 >
                   <div className="flex items-center justify-between">
-                    <span className="flex-1">{option}</span>
+                    <MathText text={option} className="flex-1" />
                     {shouldShowCorrect && isSelected && (
                       <motion.div
                         initial={{ scale: 0 }}
@@ -233,7 +303,7 @@ const QuizCard: React.FC<QuizCardProps> = ({
           >
             <h4 className="font-medium text-foreground mb-2">Explanation:</h4>
             <p className="text-muted-foreground text-sm leading-relaxed">
-              {question.explanation}
+              <MathText text={question.explanation} />
             </p>
           </motion.div>
         )}
@@ -0,0 +1,91 @@
+import React, { useId } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { flattenSections, type DocumentSection } from '@/utils/sections';
+
+interface SectionTreeProps {
+  sections: DocumentSection[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+}
+
+const SectionTree: React.FC<SectionTreeProps> = ({
+  sections,
+  selected,
+  onChange,
+  disabled = false
+}) => {
+  const idPrefix = useId();
+  const allSections = flattenSections(sections);
+  const allSelected = selected.length === allSections.length;
+  const selectedSet = new Set(selected);
+
+  // Checking a section checks everything inside it
+  const toggleSection = (section: DocumentSection, checked: boolean) => {
+    const affected = new Set(flattenSections([section]).map(item => item.id));
+    const next = checked
+      ? allSections.filter(item => selectedSet.has(item.id) || affected.has(item.id))
+      : allSections.filter(item => selectedSet.has(item.id) && !affected.has(item.id));
+    onChange(next.map(item => item.id));
+  };
+
+  const getCheckedState = (section: DocumentSection): boolean | 'indeterminate' => {
+    const ids = flattenSections([section]).map(item => item.id);
+    const count = ids.filter(id => selectedSet.has(id)).length;
+    if (count === 0) return false;
+    return count === ids.length ? true : 'indeterminate';
+  };
+
+  const renderSection = (section: DocumentSection, depth: number): React.ReactNode => {
+    const id = `${idPrefix}-${section.id}`;
+    return (
+      <div key={section.id}>
+        <label
+          htmlFor={id}
+          className="flex items-start gap-2 rounded px-2 py-1.5 text-sm cursor-pointer hover:bg-muted/50"
+          style={{ paddingLeft: `${0.5 + depth}rem` }}
+        >
+          <Checkbox
+            id={id}
+            checked={getCheckedState(section)}
+            disabled={disabled}
+            onCheckedChange={(checked) => toggleSection(section, checked === true)}
+            className="mt-0.5 data-[state=indeterminate]:opacity-60"
+          />
+          <span className="flex-1 leading-snug text-muted-foreground">{section.title}</span>
+          <span className="text-xs text-muted-foreground/70">p. {section.pageNumber}</span>
+        </label>
+        {section.children.map(child => renderSection(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-foreground">
+          Sections ({selected.length}/{allSections.length})
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onChange(allSelected ? [] : allSections.map(section => section.id))}
+          className="h-7 px-2 text-xs"
+        >
+          {allSelected ? 'Clear all' : 'Select all'}
+        </Button>
+      </div>
+
+      <ScrollArea className="h-48 rounded-md border border-border/50">
+        <div className="p-2 space-y-1">
+          {sections.map(section => renderSection(section, 0))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default SectionTree;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ChapterSelector from '@/components/ChapterSelector';
+import SectionTree from '@/components/SectionTree';
+import PageRangeInput from '@/components/PageRangeInput';
+import BoilerplatePreview from '@/components/BoilerplatePreview';
+import DiagnosticsReport from '@/components/DiagnosticsReport';
+import { getPageUnit, getPageUnitLabel } from '@/utils/documentStructure';
+import { estimateReadingTime } from '@/utils/pdfParser';
+import { getSourceDocument, hasChapterSelection, type DocumentSource } from '@/utils/documentSources';
+
+interface SourcePanelProps {
+  source: DocumentSource;
+  onChaptersChange: (selected: number[]) => void;
+  onSectionsChange: (selected: string[]) => void;
+  onPageRangeChange: (pageRange: string) => void;
+  onCleanupChange: (enabled: boolean) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+const SourcePanel: React.FC<SourcePanelProps> = ({
+  source,
+  onChaptersChange,
+  onSectionsChange,
+  onPageRangeChange,
+  onCleanupChange,
+  onRemove,
+  disabled = false
+}) => {
+  const parsed = getSourceDocument(source);
+  const pageUnit = getPageUnit(parsed.format);
+  const ocrPages = parsed.pageTexts.filter(page => page.fromOCR);
+  const ocrAverageConfidence = ocrPages.length > 0
+    ? Math.round(ocrPages.reduce((sum, page) => sum + (page.ocrConfidence ?? 0), 0) / ocrPages.length)
+    : 0;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2 min-w-0">
+          <FileText className="w-4 h-4 mt-0.5 shrink-0 text-primary" />
+          <span className="font-medium text-foreground break-words">{source.name}</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={disabled}
+          onClick={onRemove}
+          className="h-6 w-6 shrink-0"
+          aria-label={`Remove ${source.name}`}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">{getPageUnitLabel(pageUnit, true)}:</span>
+        <span className="font-medium">{parsed.pages}</span>
+      </div>
+      {ocrPages.length > 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">OCR Pages:</span>
+          <span className="font-medium">
+            {ocrPages.length} ({ocrAverageConfidence}% conf.)
+          </span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Words:</span>
+        <span className="font-medium">{parsed.wordCount.toLocaleString()}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Est. Reading:</span>
+        <span className="font-medium">{estimateReadingTime(parsed.wordCount, parsed.language)} min</span>
+      </div>
+
+      <DiagnosticsReport
+        diagnostics={source.diagnostics}
+        pagesLabel={getPageUnitLabel(pageUnit, true)}
+      />
+
+      {parsed.chapters && parsed.chapters.length > 0 && (
+        <ChapterSelector
+          chapters={parsed.chapters}
+          selected={source.selectedChapters}
+          onChange={onChaptersChange}
+          disabled={disabled}
+        />
+      )}
+
+      {source.cleanup && (
+        <BoilerplatePreview
+          cleanup={source.cleanup}
+          enabled={source.cleanupEnabled}
+          onEnabledChange={onCleanupChange}
+          disabled={disabled}
+        />
+      )}
+
+      {!hasChapterSelection(source) && parsed.pages > 1 && (
+        <PageRangeInput
+          value={source.pageRange}
+          totalPages={parsed.pages}
+          unit={pageUnit}
+          onChange={onPageRangeChange}
+          disabled={disabled}
+        />
+      )}
+
+      {parsed.sections && parsed.sections.length > 0 && (
+        <SectionTree
+          sections={parsed.sections}
+          selected={source.selectedSections}
+          onChange={onSectionsChange}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SourcePanel;
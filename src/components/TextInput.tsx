@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ClipboardPaste, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { countWords } from '@/utils/language';
+
+interface TextInputProps {
+  onTextSubmit: (text: string) => void;
+  isProcessing: boolean;
+}
+
+const MIN_WORDS = 50;
+
+const TextInput: React.FC<TextInputProps> = ({ onTextSubmit, isProcessing }) => {
+  const [text, setText] = useState('');
+
+  const wordCount = countWords(text);
+  const isTooShort = wordCount < MIN_WORDS;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="w-full max-w-2xl mx-auto space-y-4"
+    >
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+        <ClipboardPaste className="w-4 h-4" />
+        <span>Paste notes, wiki pages or any other text you want to be quizzed on</span>
+      </div>
+
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Paste your text here..."
+        disabled={isProcessing}
+        className="min-h-[240px] resize-y"
+      />
+
+      <div className="flex items-center justify-between">
+        <span className={`text-sm ${isTooShort && wordCount > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {wordCount.toLocaleString()} words{isTooShort ? ` (at least ${MIN_WORDS} needed)` : ''}
+        </span>
+        <Button
+          onClick={() => onTextSubmit(text)}
+          disabled={isProcessing || isTooShort}
+          className="gradient-primary text-primary-foreground hover:shadow-glow transition-smooth"
+        >
+          <Sparkles className="w-4 h-4 mr-2" />
+          Use This Text
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default TextInput;
@@ -1,17 +1,53 @@
 import React, { useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Brain, FileText, Sparkles, Download, RotateCcw } from 'lucide-react';
+import { Brain, FileText, Sparkles, Download, RotateCcw, Upload, ClipboardPaste, Files } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 
 import FileUpload from '@/components/FileUpload';
 import ChatUI from '@/components/ChatUI';
 import QuizCard from '@/components/QuizCard';
-import Loader from '@/components/Loader';
-
-import { parsePDF, type ParsedPDF } from '@/utils/pdfParser';
-import { chunkText, type TextChunk } from '@/utils/chunker';
-import { generateQuiz, type QuizQuestion, type ModelResponse } from '@/utils/modelClient';
+import Loader, { type LoaderStage } from '@/components/Loader';
+import PasswordDialog from '@/components/PasswordDialog';
+import SourcePanel from '@/components/SourcePanel';
+import TextInput from '@/components/TextInput';
+import CoverageBar from '@/components/CoverageBar';
+
+import { PDFPasswordError, estimateReadingTime } from '@/utils/pdfParser';
+import { getPageUnit, getPageUnitLabel, type PageUnit } from '@/utils/documentStructure';
+import { parsePlainText } from '@/utils/textParser';
+import { type TextChunk } from '@/utils/chunker';
+import { locateHeadings } from '@/utils/sections';
+import {
+  parseDocument,
+  analyzeParsedDocument,
+  chunkDocument,
+  describeDocumentProgress,
+  type DocumentProgress
+} from '@/utils/documentProcessor';
+import { getDocumentFormat } from '@/utils/documentParser';
+import {
+  createDocumentSource,
+  getPageRangeKey,
+  getSourceDocument,
+  getSessionTitle,
+  getSourceScope,
+  hasQuizContent,
+  tagSourceChunks,
+  tagSourceTables,
+  tagSourceFigures,
+  type DocumentSource
+} from '@/utils/documentSources';
+import {
+  generateQuiz,
+  getChunkTokenBudget,
+  PRIMARY_MODEL,
+  type QuizQuestion,
+  type ModelResponse
+} from '@/utils/modelClient';
+import type { DocumentDiagnostics } from '@/utils/diagnostics';
+import type { CoverageReport } from '@/utils/coveragePlanner';
 import { exportQuiz } from '@/utils/export';
 import { quizCache, cacheUtils } from '@/utils/cache';
 
@@ -24,17 +60,53 @@ interface Message {
 
 type AppState = 'upload' | 'processing' | 'chat' | 'quiz';
 
+interface PasswordPrompt {
+  file: File;
+  failedAttempts: number;
+  isIncorrect: boolean;
+}
+
+const MAX_PASSWORD_ATTEMPTS = 3;
+
+/**
+ * Lists a document's quality problems for the chat, or nothing when it has none
+ */
+const formatDiagnosticWarnings = (diagnostics: DocumentDiagnostics): string => {
+  if (diagnostics.warnings.length === 0) return '';
+  return `
+⚠️ Before you generate, note that:
+${diagnostics.warnings.map(warning => `• ${warning.message}`).join('\n')}
+`;
+};
+
 const Index: React.FC = () => {
   const [appState, setAppState] = useState<AppState>('upload');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [currentFile, setCurrentFile] = useState<File | null>(null);
-  const [parsedPDF, setParsedPDF] = useState<ParsedPDF | null>(null);
+  const [sources, setSources] = useState<DocumentSource[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
-  const [processingStage, setProcessingStage] = useState<'uploading' | 'parsing' | 'generating' | 'finishing'>('uploading');
+  const [quizCoverage, setQuizCoverage] = useState<CoverageReport | null>(null);
+  const [processingStage, setProcessingStage] = useState<'uploading' | 'generating' | 'finishing'>('uploading');
   const [progress, setProgress] = useState(0);
+  // Latest progress from the document worker; its stage overrides the processing stage while it runs
+  const [workerStatus, setWorkerStatus] = useState<{ stage: DocumentProgress['stage']; text: string | null } | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<PasswordPrompt | null>(null);
   const { toast } = useToast();
 
+  const hasSources = sources.length > 0;
+  const totalWords = sources.reduce((sum, source) => sum + getSourceDocument(source).wordCount, 0);
+  const canGenerate = hasSources && sources.every(hasQuizContent);
+  const loaderStage: LoaderStage = workerStatus?.stage ?? processingStage;
+
+  // Maps worker progress onto a slice of the overall progress bar and describes it
+  const reportProgress = useCallback((from: number, to: number, unit: PageUnit = 'page') => (update: DocumentProgress) => {
+    const fraction = update.stage === 'parsing'
+      ? (update.totalPages > 0 ? update.pagesParsed / update.totalPages : 0)
+      : (update.totalChars > 0 ? update.processedChars / update.totalChars : 0);
+    setProgress(from + (to - from) * fraction);
+    setWorkerStatus({ stage: update.stage, text: describeDocumentProgress(update, unit) });
+  }, []);
+
   const addMessage = useCallback((type: 'user' | 'ai', content: string) => {
     const message: Message = {
       id: `msg_${Date.now()}_${Math.random()}`,
@@ -45,95 +117,213 @@ const Index: React.FC = () => {
     setMessages(prev => [...prev, message]);
   }, []);
 
-  const handleFileUpload = useCallback(async (file: File) => {
-    setCurrentFile(file);
+  const announceDocument = useCallback((source: DocumentSource, name: string) => {
+    const { parsed, diagnostics } = source;
+    addMessage('ai', `Great! I've successfully processed your document "${name}". Here's what I found:
+
+📄 Document: ${parsed.metadata?.title || name}
+📊 Word Count: ${parsed.wordCount} words
+📖 ${getPageUnitLabel(getPageUnit(parsed.format), true)}: ${parsed.pages}${parsed.pageTexts.some(page => page.fromOCR) ? `
+🔍 Scanned Pages (OCR): ${parsed.pageTexts.filter(page => page.fromOCR).length}` : ''}
+⏱️ Estimated Reading Time: ${estimateReadingTime(parsed.wordCount, parsed.language)} minutes
+${formatDiagnosticWarnings(diagnostics)}
+I'm ready to generate intelligent quiz questions from this content! I can create:
+
+• Multiple Choice Questions (MCQ)
+• True/False Questions
+• Mixed difficulty levels
+• Questions with detailed explanations
+
+What type of quiz would you like me to generate? Just let me know your preferences!`);
+  }, [addMessage]);
+
+  // The password is only passed through as an argument, never kept in state or cache
+  const processFile = useCallback(async (file: File, password?: string, failedAttempts = 0) => {
+    // Failures return to the current session rather than discarding it
+    const fallbackState: AppState = hasSources ? 'chat' : 'upload';
+    const cacheKey = cacheUtils.createPdfKey(file.name, file.size);
+
+    if (sources.some(source => source.fileKey === cacheKey)) {
+      toast({
+        title: "Already added",
+        description: `"${file.name}" is already part of this session.`,
+      });
+      return;
+    }
+
     setIsProcessing(true);
     setAppState('processing');
     setProcessingStage('uploading');
-    setProgress(10);
+    setProgress(5);
 
     try {
       // Check cache first
-      const cacheKey = cacheUtils.createPdfKey(file.name, file.size);
       const cachedPDF = quizCache.get(cacheKey);
       
       if (cachedPDF) {
-        setParsedPDF(cachedPDF);
+        const analysis = await analyzeParsedDocument(cachedPDF);
+        const source = createDocumentSource(cachedPDF, analysis, cachedPDF.metadata?.title || file.name, cacheKey);
+        setSources(prev => [...prev, source]);
         setProgress(100);
         setAppState('chat');
-        addMessage('ai', `Welcome! I've loaded your document "${file.name}". It contains ${cachedPDF.wordCount} words across ${cachedPDF.pages} pages. I'm ready to generate quiz questions from this content. What type of quiz would you like me to create?`);
+        addMessage('ai', `Welcome! I've loaded your document "${file.name}". It contains ${cachedPDF.wordCount} words across ${cachedPDF.pages} ${getPageUnitLabel(getPageUnit(cachedPDF.format), true).toLowerCase()}.
+${formatDiagnosticWarnings(source.diagnostics)}
+I'm ready to generate quiz questions from this content. What type of quiz would you like me to create?`);
         setIsProcessing(false);
         return;
       }
 
-      addMessage('user', `Uploaded: ${file.name}`);
-      
-      // Parse PDF
-      setProcessingStage('parsing');
-      setProgress(30);
-      
-      const parsed = await parsePDF(file);
-      setParsedPDF(parsed);
-      
-      // Cache the parsed PDF
-      quizCache.set(cacheKey, parsed, 24 * 60 * 60 * 1000); // 24 hours
+      if (!password) {
+        addMessage('user', `Uploaded: ${file.name}`);
+      }
       
-      setProgress(60);
+      // Parse the document in the document worker
+      const pageUnit = getPageUnit(getDocumentFormat(file) ?? undefined);
+      const { parsed, ...analysis } = await parseDocument(file, reportProgress(5, 95, pageUnit), password);
+      setWorkerStatus(null);
+      setPasswordPrompt(null);
+      const source = createDocumentSource(parsed, analysis, parsed.metadata?.title || file.name, cacheKey);
+      setSources(prev => [...prev, source]);
       setProcessingStage('finishing');
       
-      // Simulate final processing
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Cache the parsed document
+      quizCache.set(cacheKey, parsed, 24 * 60 * 60 * 1000); // 24 hours
       
       setProgress(100);
       setAppState('chat');
       
-      addMessage('ai', `Great! I've successfully processed your PDF "${file.name}". Here's what I found:
-
-📄 Document: ${parsed.metadata?.title || file.name}
-📊 Word Count: ${parsed.wordCount} words
-📖 Pages: ${parsed.pages} pages
-⏱️ Estimated Reading Time: ${Math.ceil(parsed.wordCount / 200)} minutes
+      announceDocument(source, file.name);
 
-I'm ready to generate intelligent quiz questions from this content! I can create:
-
-• Multiple Choice Questions (MCQ)
-• True/False Questions
-• Mixed difficulty levels
-• Questions with detailed explanations
+    } catch (error) {
+      if (error instanceof PDFPasswordError) {
+        const attemptsUsed = failedAttempts + (error.reason === 'incorrect' ? 1 : 0);
+        if (attemptsUsed < MAX_PASSWORD_ATTEMPTS) {
+          setPasswordPrompt({ file, failedAttempts: attemptsUsed, isIncorrect: error.reason === 'incorrect' });
+          return;
+        }
 
-What type of quiz would you like me to generate? Just let me know your preferences!`);
+        setPasswordPrompt(null);
+        toast({
+          title: "Too many attempts",
+          description: "The PDF could not be unlocked. Please check the password and upload it again.",
+          variant: "destructive",
+        });
+        setAppState(fallbackState);
+        return;
+      }
 
-    } catch (error) {
-      console.error('PDF processing error:', error);
+      console.error('Document processing error:', error);
       toast({
         title: "Processing failed",
-        description: "Failed to process the PDF. Please try again.",
+        description: "Failed to process the document. Please try again.",
         variant: "destructive",
       });
-      setAppState('upload');
+      setAppState(fallbackState);
     } finally {
       setIsProcessing(false);
+      setWorkerStatus(null);
+    }
+  }, [sources, hasSources, addMessage, announceDocument, reportProgress, toast]);
+
+  const handleTextSubmit = useCallback(async (text: string) => {
+    const parsed = parsePlainText(text, 'Pasted Text');
+    setPasswordPrompt(null);
+    const source = createDocumentSource(parsed, await analyzeParsedDocument(parsed), 'Pasted Text');
+    if (sources.some(existing => existing.id === source.id)) {
+      toast({
+        title: "Already added",
+        description: "This text is already part of this session.",
+      });
+      return;
+    }
+
+    setSources(prev => [...prev, source]);
+    setAppState('chat');
+    addMessage('user', `Pasted text (${parsed.wordCount} words)`);
+    announceDocument(source, 'Pasted Text');
+  }, [sources, addMessage, announceDocument, toast]);
+
+  const handleFileUpload = useCallback((file: File) => {
+    setPasswordPrompt(null);
+    processFile(file);
+  }, [processFile]);
+
+  const handlePasswordSubmit = useCallback((password: string) => {
+    if (!passwordPrompt) return;
+    processFile(passwordPrompt.file, password, passwordPrompt.failedAttempts);
+  }, [passwordPrompt, processFile]);
+
+  const handlePasswordCancel = useCallback(() => {
+    setPasswordPrompt(null);
+    setAppState(hasSources ? 'chat' : 'upload');
+  }, [hasSources]);
+
+  const handleChaptersChange = useCallback((sourceId: string, selected: number[]) => {
+    setSources(prev => prev.map(source =>
+      source.id === sourceId ? { ...source, selectedChapters: selected } : source
+    ));
+  }, []);
+
+  const handleSectionsChange = useCallback((sourceId: string, selected: string[]) => {
+    setSources(prev => prev.map(source =>
+      source.id === sourceId ? { ...source, selectedSections: selected } : source
+    ));
+  }, []);
+
+  const handlePageRangeChange = useCallback((sourceId: string, pageRange: string) => {
+    setSources(prev => prev.map(source =>
+      source.id === sourceId ? { ...source, pageRange } : source
+    ));
+  }, []);
+
+  const handleCleanupChange = useCallback((sourceId: string, cleanupEnabled: boolean) => {
+    setSources(prev => prev.map(source =>
+      source.id === sourceId ? { ...source, cleanupEnabled } : source
+    ));
+  }, []);
+
+  const handleRemoveSource = useCallback((sourceId: string) => {
+    const remaining = sources.filter(source => source.id !== sourceId);
+    setSources(remaining);
+    if (remaining.length === 0) {
+      setMessages([]);
+      setAppState('upload');
     }
-  }, [addMessage, toast]);
+  }, [sources]);
 
   const handleGenerateQuiz = useCallback(async () => {
-    if (!parsedPDF) return;
+    if (!canGenerate) return;
 
     setIsProcessing(true);
+    setAppState('processing');
     setProcessingStage('generating');
     setProgress(0);
 
     try {
-      addMessage('user', 'Generate a comprehensive quiz from this document');
+      addMessage('user', sources.length > 1
+        ? `Generate a combined quiz from these ${sources.length} documents`
+        : 'Generate a comprehensive quiz from this document');
       
-      // Check cache for quiz
-      const textHash = cacheUtils.generateTextHash(parsedPDF.text);
-      const quizOptions = { questionCount: 10, questionTypes: ['mcq', 'true_false'] as ('mcq' | 'true_false')[], includeExplanations: true };
-      const cacheKey = cacheUtils.createQuizKey(textHash, quizOptions);
+      // Only quiz on the chapters, sections and pages the user picked in each source
+      const scopes = sources.map(source => ({ source, scope: getSourceScope(source) }));
+      const combinedText = scopes.map(({ scope }) => scope.text).join('\n\n');
+
+      // Check cache for quiz. Chunks, tables and figures carry their own source's
+      // page unit, so a PDF and a slide deck in one session are each cited correctly
+      const textHash = cacheUtils.generateTextHash(
+        scopes.map(({ source, scope }) => `${source.name}\n${scope.text}`).join('\n\n')
+      );
+      const quizOptions = {
+        questionCount: 10,
+        questionTypes: ['mcq', 'true_false'] as ('mcq' | 'true_false')[],
+        includeExplanations: true
+      };
+      const cacheKey = cacheUtils.createQuizKey(textHash, quizOptions, sources.map(getPageRangeKey).join(';'));
       
       const cachedQuiz = quizCache.get(cacheKey);
       if (cachedQuiz) {
         setQuizQuestions(cachedQuiz.questions);
+        setQuizCoverage(cachedQuiz.coverage ?? null);
         setAppState('quiz');
         addMessage('ai', `I've generated ${cachedQuiz.questions.length} quiz questions from your document! The quiz includes both multiple choice and true/false questions with explanations. You can review them below and export when ready.`);
         setIsProcessing(false);
@@ -149,15 +339,42 @@ What type of quiz would you like me to generate? Just let me know your preferenc
       };
       setMessages(prev => [...prev, typingMessage]);
 
-      // Generate quiz
-      setProgress(30);
-      const chunks = chunkText(parsedPDF.text, { maxWords: 500, overlap: 50 });
+      // Chunk each source in the document worker, then generate one quiz from all of them
+      const chunks: TextChunk[] = [];
+      const chunkingShare = 40 / scopes.length;
+      for (const [index, { source, scope }] of scopes.entries()) {
+        const sourceChunks = await chunkDocument(
+          scope.text,
+          {
+            maxWords: 500,
+            maxTokens: getChunkTokenBudget(PRIMARY_MODEL),
+            tokenizer: PRIMARY_MODEL,
+            overlap: 50,
+            language: scope.language,
+            headings: locateHeadings(scope),
+            documentId: source.id
+          },
+          scope.pageTexts,
+          reportProgress(index * chunkingShare, (index + 1) * chunkingShare)
+        );
+        chunks.push(...tagSourceChunks(sourceChunks, source));
+      }
       
-      setProgress(60);
-      const response: ModelResponse = await generateQuiz(parsedPDF.text, quizOptions);
+      setWorkerStatus(null);
+      setProgress(40);
+      const tables = scopes.flatMap(({ source, scope }) => tagSourceTables(scope, source));
+      const figures = scopes.flatMap(({ source, scope }) => tagSourceFigures(scope, source));
+      const response: ModelResponse = await generateQuiz(combinedText, {
+        ...quizOptions,
+        tables,
+        figures,
+        onProgress: (chunksDone, totalChunks) => setProgress(40 + 55 * (chunksDone / totalChunks))
+      }, chunks);
       
       if (response.success && response.questions.length > 0) {
+        setProcessingStage('finishing');
         setQuizQuestions(response.questions);
+        setQuizCoverage(response.coverage ?? null);
         
         // Cache the quiz
         quizCache.set(cacheKey, response, 60 * 60 * 1000); // 1 hour
@@ -167,7 +384,7 @@ What type of quiz would you like me to generate? Just let me know your preferenc
         
         // Remove typing message and add final response
         setMessages(prev => prev.slice(0, -1));
-        addMessage('ai', `Excellent! I've generated ${response.questions.length} comprehensive quiz questions from your document. The quiz includes:
+        addMessage('ai', `Excellent! I've generated ${response.questions.length} comprehensive quiz questions from ${sources.length > 1 ? `your ${sources.length} documents` : 'your document'}. The quiz includes:
 
 📝 ${response.questions.filter(q => q.type === 'mcq').length} Multiple Choice Questions
 ✅ ${response.questions.filter(q => q.type === 'true_false').length} True/False Questions
@@ -203,8 +420,9 @@ Please try uploading a different document or contact support if the issue persis
       setAppState('chat');
     } finally {
       setIsProcessing(false);
+      setWorkerStatus(null);
     }
-  }, [parsedPDF, addMessage, toast]);
+  }, [sources, canGenerate, addMessage, reportProgress, toast]);
 
   const handleExport = useCallback(async (format: 'txt' | 'pdf') => {
     if (quizQuestions.length === 0) return;
@@ -214,7 +432,7 @@ Please try uploading a different document or contact support if the issue persis
         format,
         includeAnswers: true,
         includeExplanations: true,
-        title: parsedPDF?.metadata?.title || currentFile?.name || 'AI Generated Quiz',
+        title: getSessionTitle(sources),
         metadata: {
           author: 'AI Quiz Generator',
           subject: 'Educational Assessment',
@@ -234,14 +452,15 @@ Please try uploading a different document or contact support if the issue persis
         variant: "destructive",
       });
     }
-  }, [quizQuestions, parsedPDF, currentFile, toast]);
+  }, [quizQuestions, sources, toast]);
 
   const handleRestart = useCallback(() => {
     setAppState('upload');
-    setCurrentFile(null);
-    setParsedPDF(null);
+    setPasswordPrompt(null);
+    setSources([]);
     setMessages([]);
     setQuizQuestions([]);
+    setQuizCoverage(null);
     setIsProcessing(false);
     setProgress(0);
   }, []);
@@ -265,7 +484,7 @@ Please try uploading a different document or contact support if the issue persis
               </div>
               <div>
                 <h1 className="text-xl font-bold text-foreground">AI Quiz Generator</h1>
-                <p className="text-sm text-muted-foreground">Transform PDFs into intelligent quizzes</p>
+                <p className="text-sm text-muted-foreground">Transform documents into intelligent quizzes</p>
               </div>
             </motion.div>
 
@@ -303,18 +522,39 @@ Please try uploading a different document or contact support if the issue persis
                   <Sparkles className="w-10 h-10 text-white" />
                 </motion.div>
                 <h2 className="text-3xl font-bold text-foreground mb-4">
-                  Upload Your PDF Document
+                  Add Your Content
                 </h2>
                 <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-                  Transform any PDF into an intelligent quiz with AI-powered question generation. 
+                  Upload a document or paste text to turn it into an intelligent quiz with AI-powered question generation. 
                   Get multiple choice and true/false questions with detailed explanations.
                 </p>
               </div>
 
-              <FileUpload
-                onFileUpload={handleFileUpload}
-                isProcessing={isProcessing}
-              />
+              <Tabs defaultValue="file" className="w-full">
+                <TabsList className="grid w-full max-w-sm mx-auto grid-cols-2 mb-6">
+                  <TabsTrigger value="file">
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload File
+                  </TabsTrigger>
+                  <TabsTrigger value="text">
+                    <ClipboardPaste className="w-4 h-4 mr-2" />
+                    Paste Text
+                  </TabsTrigger>
+                </TabsList>
+                <TabsContent value="file">
+                  <FileUpload
+                    onFileUpload={handleFileUpload}
+                    isProcessing={isProcessing}
+                    statusText={workerStatus?.text}
+                  />
+                </TabsContent>
+                <TabsContent value="text">
+                  <TextInput
+                    onTextSubmit={handleTextSubmit}
+                    isProcessing={isProcessing}
+                  />
+                </TabsContent>
+              </Tabs>
 
               {/* Features */}
               <motion.div
@@ -326,7 +566,7 @@ Please try uploading a different document or contact support if the issue persis
                 {[
                   {
                     icon: FileText,
-                    title: 'Smart PDF Processing',
+                    title: 'Smart Document Processing',
                     description: 'Advanced text extraction and content analysis'
                   },
                   {
@@ -369,13 +609,15 @@ Please try uploading a different document or contact support if the issue persis
             >
               <Loader
                 text={
-                  processingStage === 'uploading' ? 'Uploading your PDF...' :
-                  processingStage === 'parsing' ? 'Extracting text content...' :
-                  processingStage === 'generating' ? 'Generating quiz questions...' :
+                  loaderStage === 'uploading' ? 'Uploading your document...' :
+                  loaderStage === 'parsing' ? 'Extracting text content...' :
+                  loaderStage === 'chunking' ? 'Splitting the text into chunks...' :
+                  loaderStage === 'generating' ? 'Generating quiz questions...' :
                   'Finalizing your quiz...'
                 }
+                detail={workerStatus?.text}
                 progress={progress}
-                stage={processingStage}
+                stage={loaderStage}
               />
             </motion.div>
           )}
@@ -401,31 +643,51 @@ Please try uploading a different document or contact support if the issue persis
                   <motion.div
                     initial={{ opacity: 0, x: 20 }}
                     animate={{ opacity: 1, x: 0 }}
-                    className="gradient-card p-6 rounded-xl shadow-card border border-border/50 sticky top-24"
+                    className="gradient-card p-6 rounded-xl shadow-card border border-border/50 sticky top-24 max-h-[calc(100vh-7rem)] overflow-y-auto"
                   >
-                    <h3 className="font-semibold text-foreground mb-4">Document Info</h3>
-                    
-                    {parsedPDF && (
-                      <div className="space-y-3 text-sm">
-                        <div className="flex justify-between">
-                          <span className="text-muted-foreground">Pages:</span>
-                          <span className="font-medium">{parsedPDF.pages}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-muted-foreground">Words:</span>
-                          <span className="font-medium">{parsedPDF.wordCount.toLocaleString()}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-muted-foreground">Est. Reading:</span>
-                          <span className="font-medium">{Math.ceil(parsedPDF.wordCount / 200)} min</span>
+                    <h3 className="font-semibold text-foreground mb-4">
+                      Document Info{sources.length > 1 ? ` (${sources.length} sources)` : ''}
+                    </h3>
+
+                    <div className="space-y-6">
+                      {sources.map((source, index) => (
+                        <div
+                          key={source.id}
+                          className={index > 0 ? 'pt-6 border-t border-border/30' : ''}
+                        >
+                          <SourcePanel
+                            source={source}
+                            onChaptersChange={(selected) => handleChaptersChange(source.id, selected)}
+                            onSectionsChange={(selected) => handleSectionsChange(source.id, selected)}
+                            onPageRangeChange={(pageRange) => handlePageRangeChange(source.id, pageRange)}
+                            onCleanupChange={(enabled) => handleCleanupChange(source.id, enabled)}
+                            onRemove={() => handleRemoveSource(source.id)}
+                            disabled={isProcessing}
+                          />
                         </div>
+                      ))}
+                    </div>
+
+                    {sources.length > 1 && (
+                      <div className="mt-6 pt-6 border-t border-border/30 flex justify-between text-sm">
+                        <span className="text-muted-foreground">Total Words:</span>
+                        <span className="font-medium">{totalWords.toLocaleString()}</span>
                       </div>
                     )}
 
+                    <div className="mt-6">
+                      <FileUpload
+                        onFileUpload={handleFileUpload}
+                        isProcessing={isProcessing}
+                        statusText={workerStatus?.text}
+                        compact
+                      />
+                    </div>
+
                     <div className="mt-6 pt-6 border-t border-border/30">
                       <Button
                         onClick={handleGenerateQuiz}
-                        disabled={isProcessing || !parsedPDF}
+                        disabled={isProcessing || !canGenerate}
                         className="w-full gradient-primary text-primary-foreground hover:shadow-glow transition-smooth"
                       >
                         {isProcessing ? (
@@ -478,6 +740,14 @@ Please try uploading a different document or contact support if the issue persis
                 transition={{ delay: 0.2 }}
                 className="flex justify-center space-x-4 mb-8"
               >
+                <Button
+                  variant="outline"
+                  onClick={() => setAppState('chat')}
+                  className="transition-smooth hover:shadow-card"
+                >
+                  <Files className="w-4 h-4 mr-2" />
+                  Edit Sources
+                </Button>
                 <Button
                   variant="outline"
                   onClick={() => handleExport('txt')}
@@ -496,6 +766,13 @@ Please try uploading a different document or contact support if the issue persis
                 </Button>
               </motion.div>
 
+              {/* Section Coverage */}
+              {quizCoverage && (
+                <div className="max-w-3xl mx-auto mb-8">
+                  <CoverageBar coverage={quizCoverage} />
+                </div>
+              )}
+
               {/* Quiz Questions */}
               <div className="grid lg:grid-cols-2 gap-6">
                 {quizQuestions.map((question, index) => (
@@ -512,6 +789,15 @@ Please try uploading a different document or contact support if the issue persis
         </AnimatePresence>
       </main>
 
+      <PasswordDialog
+        open={passwordPrompt !== null}
+        fileName={passwordPrompt?.file.name ?? ''}
+        attemptsRemaining={MAX_PASSWORD_ATTEMPTS - (passwordPrompt?.failedAttempts ?? 0)}
+        isIncorrect={passwordPrompt?.isIncorrect ?? false}
+        onSubmit={handlePasswordSubmit}
+        onCancel={handlePasswordCancel}
+      />
+
       {/* Background decoration */}
       <div className="fixed inset-0 pointer-events-none overflow-hidden -z-10">
         {[...Array(20)].map((_, i) => (
@@ -0,0 +1,216 @@
+/**
+ * Boilerplate Removal Utility
+ * Strips running headers, footers, page numbers and watermarks that repeat across PDF pages
+ */
+
+import { buildPageModel, type ParsedPDF } from './pdfParser';
+import { countWords } from './language';
+import type { DocumentSection } from './sections';
+
+export type BoilerplateKind = 'header' | 'footer' | 'page_number' | 'watermark';
+
+export interface RemovedLine {
+  text: string; // First occurrence, as it appeared on the page
+  kind: BoilerplateKind;
+  pageCount: number; // Pages the line was removed from
+}
+
+export interface BoilerplateCleanup {
+  cleaned: ParsedPDF;
+  removed: RemovedLine[];
+  linesRemoved: number;
+}
+
+interface PageLine {
+  text: string; // Trimmed, empty for blank lines
+  start: number; // Offsets of the raw line within the page text
+  end: number;
+}
+
+// Lines this close to the top or bottom of a page count as header or footer candidates
+const EDGE_LINES = 3;
+// Share of pages a line must repeat on to count as boilerplate
+const HEADER_FOOTER_SHARE = 0.4;
+const WATERMARK_SHARE = 0.6;
+const MIN_REPEATED_PAGES = 3;
+const MAX_WATERMARK_LENGTH = 80;
+
+const PAGE_NUMBER_PATTERN = /^(?:page\s*)?[-–—(]?\s*\d{1,4}\s*[-–—)]?(?:\s*(?:of|\/)\s*\d{1,4})?$/i;
+// Numbered headings and sentences in the body can repeat with only their numbers
+// changed ("Example 3.1", "Example 4.2"); they are compared by exact text only.
+// A heading ends in its title, while a running head usually ends in the page number.
+const NUMBERED_HEADING_PATTERN = /^(?:(?:chapter|section|part|appendix|example|exercise|definition|theorem|lemma|proof|corollary|proposition|problem|figure|fig\.|table|equation)\s+[\dIVXLC]+(?:\.\d+)*(?:[.:]?\s+\D*)?|\d+(?:\.\d+)+\s+\p{L}\D*)$/iu;
+const SENTENCE_PATTERN = /(?:\S+\s+){2,}\S*[.!?…]["'”’)]?$|[。！？]$/u;
+// Roman page numbers number front matter, so only valid numerals below 400 in one
+// case, alone on their line, count; words such as "mix", "civil" or "Did" do not
+const ROMAN_PAGE_NUMBER_PATTERN = /^(?=[ivxlc])c{0,3}(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3})$|^(?=[IVXLC])C{0,3}(?:XC|XL|L?X{0,3})(?:IX|IV|V?I{0,3})$/;
+
+/**
+ * Finds lines that repeat in the same position across pages, page numbers and
+ * watermarks, and returns the document with them removed.
+ * Returns null when nothing was found to remove.
+ */
+export const removeBoilerplate = (parsed: ParsedPDF): BoilerplateCleanup | null => {
+  const allLines = parsed.pageTexts.map(page => splitLines(page.text));
+  const pages = allLines.map(lines => lines.filter(line => line.text));
+  const pageCount = pages.length;
+  if (pageCount < MIN_REPEATED_PAGES) {
+    return null;
+  }
+
+  const headerCounts = countLinePages(pages, lines => lines.slice(0, EDGE_LINES), edgeLineKey);
+  const footerCounts = countLinePages(pages, lines => lines.slice(-EDGE_LINES), edgeLineKey);
+  const anywhereCounts = countLinePages(pages, lines => lines, exactLineKey);
+  const isRepeated = (count: number | undefined, share: number) =>
+    (count ?? 0) >= Math.max(MIN_REPEATED_PAGES, Math.ceil(pageCount * share));
+
+  const removed = new Map<string, RemovedLine>();
+  let linesRemoved = 0;
+
+  const classify = (line: PageLine, index: number, total: number): BoilerplateKind | null => {
+    const edgeKey = edgeLineKey(line.text);
+    const atTop = index < EDGE_LINES;
+    const atBottom = index >= total - EDGE_LINES;
+
+    if ((atTop || atBottom) && isPageNumber(line.text)) return 'page_number';
+    if (atTop && isRepeated(headerCounts.get(edgeKey), HEADER_FOOTER_SHARE)) return 'header';
+    if (atBottom && isRepeated(footerCounts.get(edgeKey), HEADER_FOOTER_SHARE)) return 'footer';
+    if (line.text.length <= MAX_WATERMARK_LENGTH && !isBodyLine(line.text) &&
+      isRepeated(anywhereCounts.get(exactLineKey(line.text)), WATERMARK_SHARE)) {
+      return 'watermark';
+    }
+    return null;
+  };
+
+  const keptLines = allLines.map((lines, pageIndex) => {
+    const textLines = pages[pageIndex];
+    const kept = lines.filter(line => {
+      if (!line.text) return true;
+      const kind = classify(line, textLines.indexOf(line), textLines.length);
+      if (!kind) return true;
+
+      const key = `${kind}:${kind === 'watermark' ? exactLineKey(line.text) : edgeLineKey(line.text)}`;
+      const entry = removed.get(key) ?? { text: line.text, kind, pageCount: 0 };
+      entry.pageCount++;
+      removed.set(key, entry);
+      linesRemoved++;
+      return false;
+    });
+
+    // Blank lines left at the edges of a page once its header or footer is gone
+    while (kept.length > 0 && !kept[0].text) kept.shift();
+    while (kept.length > 0 && !kept[kept.length - 1].text) kept.pop();
+    return kept;
+  });
+
+  if (linesRemoved === 0) {
+    return null;
+  }
+
+  const { text, pages: builtPages } = buildPageModel(
+    keptLines.map((lines, pageIndex) =>
+      lines.map(line => parsed.pageTexts[pageIndex].text.slice(line.start, line.end)).join('\n')
+    )
+  );
+  const pageTexts = builtPages.map((page, index) => ({
+    ...parsed.pageTexts[index],
+    text: page.text,
+    startIndex: page.startIndex,
+    endIndex: page.endIndex
+  }));
+
+  // Section offsets point into the original text, so move them to the cleaned text
+  const mapOffset = (offset: number): number => {
+    const pageIndex = parsed.pageTexts.findIndex(page => offset <= page.endIndex);
+    if (pageIndex === -1) return text.length;
+
+    const original = parsed.pageTexts[pageIndex];
+    const relative = Math.max(0, offset - original.startIndex);
+    let cleanedOffset = 0;
+    for (const line of keptLines[pageIndex]) {
+      if (relative < line.end) {
+        cleanedOffset += Math.max(0, relative - line.start);
+        break;
+      }
+      cleanedOffset += line.end - line.start + 1;
+    }
+    return Math.min(pageTexts[pageIndex].startIndex + cleanedOffset, pageTexts[pageIndex].endIndex);
+  };
+  const mapSections = (sections: DocumentSection[]): DocumentSection[] =>
+    sections.map(section => ({
+      ...section,
+      startIndex: mapOffset(section.startIndex),
+      endIndex: section.endIndex >= parsed.text.length ? text.length : mapOffset(section.endIndex),
+      children: mapSections(section.children)
+    }));
+
+  return {
+    cleaned: {
+      ...parsed,
+      text,
+      pageTexts,
+      wordCount: countWords(text, parsed.language),
+      ...(parsed.sections ? { sections: mapSections(parsed.sections) } : {})
+    },
+    removed: [...removed.values()].sort((a, b) => b.pageCount - a.pageCount),
+    linesRemoved
+  };
+};
+
+/**
+ * Checks whether a line is a page number, e.g. "12", "Page 3 of 40" or "xiv"
+ */
+const isPageNumber = (line: string): boolean => {
+  return PAGE_NUMBER_PATTERN.test(line) || ROMAN_PAGE_NUMBER_PATTERN.test(line);
+};
+
+/**
+ * Splits page text into lines with their offsets
+ */
+const splitLines = (pageText: string): PageLine[] => {
+  const lines: PageLine[] = [];
+  let start = 0;
+
+  pageText.split('\n').forEach(rawLine => {
+    lines.push({ text: rawLine.trim(), start, end: start + rawLine.length });
+    start += rawLine.length + 1;
+  });
+
+  return lines;
+};
+
+/**
+ * Counts how many pages each line key appears on within the chosen lines of a page
+ */
+const countLinePages = (
+  pages: PageLine[][],
+  pick: (lines: PageLine[]) => PageLine[],
+  toKey: (line: string) => string
+): Map<string, number> => {
+  const counts = new Map<string, number>();
+  pages.forEach(lines => {
+    new Set(pick(lines).map(line => toKey(line.text))).forEach(key => {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+  });
+  return counts;
+};
+
+/**
+ * Keys a line at the top or bottom of a page, where running heads carry the page
+ * number: numbers are masked so "Chapter 3 · 41" and "Chapter 3 · 42" compare
+ * equal. Body lines that happen to sit at the edge keep their numbers.
+ */
+const edgeLineKey = (line: string): string => {
+  const key = exactLineKey(line).toLowerCase();
+  return isBodyLine(line) ? key : key.replace(/\d+/g, '#');
+};
+
+const exactLineKey = (line: string): string => line.replace(/\s+/g, ' ').trim();
+
+/**
+ * Checks whether a line reads as body text: a numbered heading or a sentence
+ */
+const isBodyLine = (line: string): boolean => {
+  return NUMBERED_HEADING_PATTERN.test(line) || SENTENCE_PATTERN.test(line);
+};
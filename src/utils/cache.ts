@@ -245,10 +245,10 @@ export const cacheUtils = {
   },
 
   /**
-   * Creates a cache key for quiz generation
+   * Creates a cache key for quiz generation, scoped to the selected page range
    */
-  createQuizKey: (textHash: string, options: any): string => {
-    return `quiz_${textHash}_${JSON.stringify(options)}`;
+  createQuizKey: (textHash: string, options: any, pageRange = 'all'): string => {
+    return `quiz_${textHash}_${JSON.stringify(options)}_pages_${pageRange}`;
   },
 
   /**
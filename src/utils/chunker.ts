@@ -3,70 +3,163 @@
  * Splits large text into smaller, manageable chunks for AI processing
  */
 
+import { getPagesForRange, type PageText } from './pdfParser';
+import type { PageUnit } from './documentStructure';
+import { findMathSpans } from './math';
+import { countWords, findSentenceEnds, findWordLimitEnd } from './language';
+import type { SectionHeading } from './sections';
+import { findTokenLimitEnd, getTokenizer } from './tokenizer';
+import { hashString } from './hash';
+import { findTopicBoundaries } from './topicSegmenter';
+
 export interface TextChunk {
   id: string;
   content: string;
   startIndex: number;
   endIndex: number;
   wordCount: number;
+  language?: string; // BCP 47 code the text was chunked for, when known
+  tokenCount?: number; // Counted with the tokenizer the text was chunked for
+  pageNumbers?: number[];
+  pageUnit?: PageUnit;
+  sectionPath?: string[]; // Titles of the sections the chunk starts in, outermost first
+  sourceId?: string; // Set when chunks from several documents are combined
+  sourceName?: string;
 }
 
+export type ChunkingStrategy = 'size' | 'semantic';
+
 export interface ChunkingOptions {
+  strategy?: ChunkingStrategy; // 'semantic' also breaks where the topic shifts; defaults to 'size'
   maxWords?: number;
   maxChars?: number;
+  maxTokens?: number;
+  tokenizer?: string; // Model whose tokenizer counts maxTokens, e.g. "gemini-1.5-flash"
   overlap?: number;
   preserveParagraphs?: boolean;
   preserveSentences?: boolean;
+  language?: string; // BCP 47 code used to find sentence and word boundaries
+  headings?: SectionHeading[]; // Chunks break before headings and record their section
+  documentId?: string; // Part of every chunk ID; defaults to a hash of the text
+  onProgress?: (chunksBuilt: number, processedChars: number, totalChars: number) => void;
 }
 
+// A heading or topic shift only starts a new chunk once the current one holds this share
+// of maxChars, so a chapter title directly followed by its first section stays with that section
+const MIN_SECTION_SHARE = 0.1;
+
 /**
- * Splits text into chunks based on specified options
+ * Splits text into chunks based on specified options, breaking at headings,
+ * then paragraphs, then sentences. Paragraph breaks are kept in the chunks.
+ * The semantic strategy also breaks where the topic shifts, so each chunk
+ * covers one topic; topics longer than the size limits still span several chunks.
+ * When the document's pages are given, each chunk records the pages it spans.
  */
 export const chunkText = (
   text: string, 
-  options: ChunkingOptions = {}
+  options: ChunkingOptions = {},
+  pages?: PageText[]
 ): TextChunk[] => {
   const {
+    strategy = 'size',
     maxWords = 500,
     maxChars = 3000,
+    maxTokens = Infinity,
     overlap = 50,
     preserveParagraphs = true,
-    preserveSentences = true
+    preserveSentences = true,
+    language,
+    headings = [],
+    onProgress
   } = options;
+  const tokenizer = getTokenizer(options.tokenizer);
+  const documentId = options.documentId ?? hashString(text);
 
-  // Clean and normalize text
-  const cleanText = text
-    .replace(/\s+/g, ' ')
-    .replace(/\n{3,}/g, '\n\n')
-    .trim();
+  // Clean and normalize text, keeping a map back to the original offsets
+  const { text: cleanText, offsets } = normalizeWhitespace(text);
 
   if (cleanText.length === 0) {
     return [];
   }
 
-  // If text is small enough, return as single chunk
-  const wordCount = cleanText.split(/\s+/).length;
-  if (wordCount <= maxWords && cleanText.length <= maxChars) {
+  const resolvePages = (start: number, end: number): number[] | undefined => {
+    if (!pages || pages.length === 0) return undefined;
+    const first = Math.max(0, Math.floor(start));
+    const last = Math.min(offsets.length - 1, Math.ceil(end) - 1);
+    return getPagesForRange(pages, offsets[first], offsets[last] + 1);
+  };
+
+  const sectionHeadings = headings
+    .map(heading => ({ ...heading, startIndex: toNormalizedIndex(offsets, heading.startIndex) }))
+    .sort((a, b) => a.startIndex - b.startIndex);
+  const resolveSectionPath = (start: number): string[] | undefined => {
+    // A chunk that opens with a run of headings belongs to the innermost of them
+    let position = start;
+    for (const heading of sectionHeadings) {
+      if (heading.startIndex < position) continue;
+      if (cleanText.slice(position, heading.startIndex).trim() !== '') break;
+      position = heading.startIndex + heading.title.length;
+    }
+    const path = getSectionPath(sectionHeadings, Math.max(start, position - 1));
+    return path.length > 0 ? path : undefined;
+  };
+
+  // Chunks break before headings and, in semantic mode, where the topic shifts
+  const topicBoundaries = strategy === 'semantic' ? findTopicBoundaries(cleanText, language) : [];
+  const breakPoints = [...sectionHeadings.map(heading => heading.startIndex), ...topicBoundaries]
+    .sort((a, b) => a - b);
+
+  // If text is small enough and on one topic, return as single chunk
+  const wordCount = countWords(cleanText, language);
+  const tokenCount = tokenizer.countTokens(cleanText);
+  if (wordCount <= maxWords && cleanText.length <= maxChars && tokenCount <= maxTokens &&
+    topicBoundaries.length === 0) {
+    onProgress?.(1, cleanText.length, cleanText.length);
     return [{
-      id: generateChunkId(0),
+      id: generateChunkId(documentId, 0, cleanText),
       content: cleanText,
       startIndex: 0,
       endIndex: cleanText.length,
-      wordCount
+      wordCount,
+      language,
+      tokenCount,
+      pageNumbers: resolvePages(0, cleanText.length),
+      sectionPath: resolveSectionPath(0)
     }];
   }
 
+  const mathSpans = findMathSpans(cleanText);
   const chunks: TextChunk[] = [];
   let currentIndex = 0;
-  let chunkCounter = 0;
 
   while (currentIndex < cleanText.length) {
     let chunkEnd = Math.min(currentIndex + maxChars, cleanText.length);
     let chunkContent = cleanText.substring(currentIndex, chunkEnd);
 
+    // Check word count limit first, so text without spaces (where
+    // characters run far past the word limit) still ends on a sentence
+    const currentWordCount = countWords(chunkContent, language);
+    if (currentWordCount > maxWords) {
+      chunkContent = trimToWordLimit(chunkContent, maxWords, language);
+      chunkEnd = currentIndex + chunkContent.length;
+    }
+    if (tokenizer.countTokens(chunkContent) > maxTokens) {
+      chunkContent = chunkContent.slice(0, findTokenLimitEnd(tokenizer, chunkContent, maxTokens));
+      chunkEnd = currentIndex + chunkContent.length;
+    }
+
+    // A new section or topic starts a new chunk
+    const nextBreak = breakPoints.find(breakPoint =>
+      breakPoint > currentIndex + maxChars * MIN_SECTION_SHARE && breakPoint < chunkEnd
+    );
+    if (nextBreak !== undefined) {
+      chunkEnd = nextBreak;
+      chunkContent = cleanText.substring(currentIndex, chunkEnd);
+    }
+
     // Try to preserve sentence boundaries
-    if (preserveSentences && chunkEnd < cleanText.length) {
-      const lastSentenceEnd = findLastSentenceEnd(chunkContent);
+    if (preserveSentences && nextBreak === undefined && chunkEnd < cleanText.length) {
+      const lastSentenceEnd = findLastSentenceEnd(chunkContent, language);
       if (lastSentenceEnd > chunkContent.length * 0.7) {
         chunkEnd = currentIndex + lastSentenceEnd;
         chunkContent = cleanText.substring(currentIndex, chunkEnd);
@@ -74,7 +167,7 @@ export const chunkText = (
     }
 
     // Try to preserve paragraph boundaries
-    if (preserveParagraphs && chunkEnd < cleanText.length) {
+    if (preserveParagraphs && nextBreak === undefined && chunkEnd < cleanText.length) {
       const lastParagraphEnd = findLastParagraphEnd(chunkContent);
       if (lastParagraphEnd > chunkContent.length * 0.6) {
         chunkEnd = currentIndex + lastParagraphEnd;
@@ -82,48 +175,128 @@ export const chunkText = (
       }
     }
 
-    // Check word count limit
-    const currentWordCount = chunkContent.split(/\s+/).length;
-    if (currentWordCount > maxWords) {
-      chunkContent = trimToWordLimit(chunkContent, maxWords);
-      chunkEnd = currentIndex + chunkContent.length;
+    // Never cut a formula in half; end the chunk before it instead
+    const splitFormula = mathSpans.find(span =>
+      span.start > currentIndex && span.start < chunkEnd && span.end > chunkEnd
+    );
+    if (splitFormula) {
+      chunkEnd = splitFormula.start;
+      chunkContent = cleanText.substring(currentIndex, chunkEnd);
     }
 
     chunks.push({
-      id: generateChunkId(chunkCounter),
+      id: generateChunkId(documentId, currentIndex, chunkContent.trim()),
       content: chunkContent.trim(),
       startIndex: currentIndex,
       endIndex: chunkEnd,
-      wordCount: chunkContent.trim().split(/\s+/).length
+      wordCount: countWords(chunkContent, language),
+      language,
+      tokenCount: tokenizer.countTokens(chunkContent.trim()),
+      pageNumbers: resolvePages(currentIndex, chunkEnd),
+      sectionPath: resolveSectionPath(currentIndex)
     });
 
-    // Calculate next starting position with overlap
-    const overlapChars = Math.min(overlap, chunkContent.length * 0.3);
-    currentIndex = chunkEnd - overlapChars;
-    chunkCounter++;
+    onProgress?.(chunks.length, Math.min(chunkEnd, cleanText.length), cleanText.length);
 
-    // Prevent infinite loop
-    if (currentIndex >= cleanText.length || chunks.length > 100) {
+    // Overlapping back from the end of the text would only repeat the last chunk
+    if (chunkEnd >= cleanText.length) {
       break;
     }
+
+    // The next section or topic starts fresh, without repeating the end of this one
+    if (nextBreak !== undefined) {
+      currentIndex = chunkEnd;
+      continue;
+    }
+
+    // Calculate next starting position with overlap
+    const overlapChars = Math.min(overlap, chunkContent.length * 0.3);
+    const nextIndex = chunkEnd - overlapChars;
+    // An overlap that starts inside a formula takes in the whole formula
+    const overlappedFormula = mathSpans.find(span => span.start < nextIndex && span.end > nextIndex);
+    const overlapStart = overlappedFormula && overlappedFormula.start > currentIndex ? overlappedFormula.start : nextIndex;
+    // Always move forward, even when a boundary rule shrank the chunk to nothing
+    currentIndex = overlapStart > currentIndex ? overlapStart : Math.max(chunkEnd, currentIndex + 1);
   }
 
   return chunks;
 };
 
 /**
- * Finds the last sentence ending in the text
+ * Collapses whitespace runs to single spaces and trims the text, keeping
+ * paragraph breaks (runs with a blank line) as a single blank line.
+ * offsets[i] is the index in the original text of the i-th normalized character.
+ */
+const normalizeWhitespace = (text: string): { text: string; offsets: number[] } => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let pendingSpace = -1;
+  let pendingNewlines = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (pendingSpace === -1) pendingSpace = i;
+      if (text[i] === '\n') pendingNewlines++;
+      continue;
+    }
+    if (pendingSpace !== -1 && normalized.length > 0) {
+      const separator = pendingNewlines >= 2 ? '\n\n' : ' ';
+      normalized += separator;
+      offsets.push(...Array.from(separator, () => pendingSpace));
+    }
+    pendingSpace = -1;
+    pendingNewlines = 0;
+    normalized += text[i];
+    offsets.push(i);
+  }
+
+  return { text: normalized, offsets };
+};
+
+/**
+ * Maps an offset in the original text to the first normalized character at or after it
  */
-const findLastSentenceEnd = (text: string): number => {
-  const sentenceEnders = /[.!?]+\s/g;
-  let lastMatch = -1;
-  let match;
+const toNormalizedIndex = (offsets: number[], originalIndex: number): number => {
+  let low = 0;
+  let high = offsets.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (offsets[middle] < originalIndex) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
 
-  while ((match = sentenceEnders.exec(text)) !== null) {
-    lastMatch = match.index + match[0].length;
+/**
+ * Returns the titles of the sections open at a position, outermost first
+ */
+const getSectionPath = (headings: SectionHeading[], position: number): string[] => {
+  const open: SectionHeading[] = [];
+  for (const heading of headings) {
+    if (heading.startIndex > position) break;
+    while (open.length > 0 && open[open.length - 1].level >= heading.level) {
+      open.pop();
+    }
+    open.push(heading);
   }
+  return open.map(heading => heading.title);
+};
+
+/**
+ * Writes a section path for display, e.g. "Ch 3 › Neural Networks"
+ */
+export const formatSectionPath = (sectionPath: string[]): string => sectionPath.join(' › ');
 
-  return lastMatch > 0 ? lastMatch : text.length;
+/**
+ * Finds the last complete sentence ending in the text, using the language's
+ * sentence rules so abbreviations and CJK punctuation are handled
+ */
+const findLastSentenceEnd = (text: string, language?: string): number => {
+  const sentenceEnds = findSentenceEnds(text, language).filter(end => end < text.length);
+  return sentenceEnds.length > 0 ? sentenceEnds[sentenceEnds.length - 1] : text.length;
 };
 
 /**
@@ -137,20 +310,16 @@ const findLastParagraphEnd = (text: string): number => {
 /**
  * Trims text to specified word limit
  */
-const trimToWordLimit = (text: string, wordLimit: number): string => {
-  const words = text.split(/\s+/);
-  if (words.length <= wordLimit) {
-    return text;
-  }
-  
-  return words.slice(0, wordLimit).join(' ');
+const trimToWordLimit = (text: string, wordLimit: number, language?: string): string => {
+  return text.slice(0, findWordLimitEnd(text, wordLimit, language));
 };
 
 /**
- * Generates a unique chunk ID
+ * Derives a chunk's ID from its document, position and content, so the same
+ * document always chunks to the same IDs
  */
-const generateChunkId = (index: number): string => {
-  return `chunk_${index}_${Date.now()}`;
+const generateChunkId = (documentId: string, startIndex: number, content: string): string => {
+  return `chunk_${hashString(documentId, String(startIndex), content)}`;
 };
 
 /**
@@ -189,11 +358,14 @@ const calculateSimilarity = (text1: string, text2: string): number => {
 };
 
 /**
- * Analyzes chunk distribution and quality
+ * Analyzes chunk distribution and quality. Token counts come from the chunks,
+ * or from the given model's tokenizer for chunks that have none.
  */
-export const analyzeChunks = (chunks: TextChunk[]) => {
+export const analyzeChunks = (chunks: TextChunk[], tokenizerId?: string) => {
   const wordCounts = chunks.map(chunk => chunk.wordCount);
   const charCounts = chunks.map(chunk => chunk.content.length);
+  const tokenizer = getTokenizer(tokenizerId);
+  const tokenCounts = chunks.map(chunk => chunk.tokenCount ?? tokenizer.countTokens(chunk.content));
   
   return {
     totalChunks: chunks.length,
@@ -202,6 +374,10 @@ export const analyzeChunks = (chunks: TextChunk[]) => {
     minWordCount: Math.min(...wordCounts),
     maxWordCount: Math.max(...wordCounts),
     minCharCount: Math.min(...charCounts),
-    maxCharCount: Math.max(...charCounts)
+    maxCharCount: Math.max(...charCounts),
+    totalTokenCount: tokenCounts.reduce((a, b) => a + b, 0),
+    avgTokenCount: tokenCounts.reduce((a, b) => a + b, 0) / chunks.length,
+    minTokenCount: Math.min(...tokenCounts),
+    maxTokenCount: Math.max(...tokenCounts)
   };
 };
\ No newline at end of file
@@ -0,0 +1,282 @@
+/**
+ * Coverage Planner Utility
+ * Spreads a quiz over the whole document: scores each chunk for how much it is
+ * worth asking about, allocates the questions across sections and chunks, and
+ * reports afterwards which sections the quiz covered
+ */
+
+import { formatSectionPath, type TextChunk } from './chunker';
+import type { PageUnit } from './documentStructure';
+import { extractContentTerms } from './language';
+import { formatPageNumbers } from './pdfParser';
+import type { QuizQuestion } from './modelClient';
+
+export interface CoverageSection {
+  label: string; // Section path, or the pages of a document without sections
+  pageNumbers: number[];
+  pageUnit?: PageUnit;
+  wordCount: number;
+  questionCount: number;
+}
+
+export interface CoverageReport {
+  sections: CoverageSection[]; // In document order
+  coveredSections: number; // Sections with at least one question
+  coveredShare: number; // 0-1 share of the text's words in sections with a question
+}
+
+interface SectionGroup {
+  label: string;
+  chunkIndexes: number[];
+}
+
+// Salience is a weighted mix of these signals, each scaled to 0-1
+const KEYWORD_WEIGHT = 0.5;
+const DEFINITION_WEIGHT = 0.3;
+const HEADING_WEIGHT = 0.2;
+const MIN_SALIENCE = 0.1;
+const KEYWORD_COUNT = 30; // Document terms that count as its keywords
+const MAX_DEFINITIONS = 3; // Definitions beyond this add nothing more
+const SHORT_CHUNK_WORDS = 60; // Chunks shorter than this score proportionally less
+// Text without sections is split into parts of about this many chunks, up to a limit
+const CHUNKS_PER_PART = 3;
+const MAX_UNSECTIONED_PARTS = 8;
+
+// Phrasings that introduce a definition. Written for English; other languages
+// score on keywords and headings alone.
+const DEFINITION_PATTERNS = [
+  /\b(?:is|are) (?:defined as|called|known as|referred to as|termed)\b/gi,
+  /\brefers? to\b/gi,
+  /\b(?:is|are) (?:a|an|the) (?:type|kind|form|process|method|measure|branch|field|study) of\b/gi,
+  /\bmeans\b/gi,
+  // Glossary entries such as "Overfitting: when a model…"
+  /^\p{Lu}[\p{L} -]{1,40}:\s/gmu,
+  // Abbreviations introduced in brackets, such as "Natural Language Processing (NLP)"
+  /\p{L}{3,} \(\p{Lu}{2,}\)/gu
+];
+
+/**
+ * Scores each chunk for salience from 0 to 1: how densely it uses the
+ * document's keywords, how many terms it defines, and whether it opens a section.
+ * Words are split by each chunk's language, so text without spaces has keywords too.
+ */
+export const scoreChunkSalience = (chunks: TextChunk[]): number[] => {
+  const chunkTerms = chunks.map(chunk => extractContentTerms(chunk.content, chunk.language));
+  const keywords = findKeywords(chunkTerms);
+  const densities = chunkTerms.map(terms =>
+    terms.length > 0 ? terms.filter(term => keywords.has(term)).length / terms.length : 0
+  );
+  const maxDensity = Math.max(...densities, Number.EPSILON);
+  const sectionOpeners = new Set(groupChunksBySection(chunks).map(group => group.chunkIndexes[0]));
+
+  return chunks.map((chunk, index) => {
+    const definitions = DEFINITION_PATTERNS.reduce((sum, pattern) => sum + (chunk.content.match(pattern)?.length ?? 0), 0);
+    const opensSection = chunk.sectionPath !== undefined && sectionOpeners.has(index);
+    const score = KEYWORD_WEIGHT * densities[index] / maxDensity +
+      DEFINITION_WEIGHT * Math.min(definitions, MAX_DEFINITIONS) / MAX_DEFINITIONS +
+      HEADING_WEIGHT * (opensSection ? 1 : 0);
+    return Math.max(MIN_SALIENCE, score) * Math.min(1, chunk.wordCount / SHORT_CHUNK_WORDS);
+  });
+};
+
+/**
+ * Allocates the questions across sections, then within each section across its
+ * chunks, by salience. Every section gets a question when there are enough to
+ * go round; otherwise the questions are spread through the document. Returns
+ * how many questions to ask of each chunk.
+ */
+export const planQuestions = (chunks: TextChunk[], questionCount: number): number[] => {
+  const salience = scoreChunkSalience(chunks);
+  const groups = groupChunksBySection(chunks);
+  const sectionQuotas = allocate(
+    groups.map(group => group.chunkIndexes.reduce((sum, index) => sum + salience[index], 0)),
+    questionCount
+  );
+
+  const plan = chunks.map(() => 0);
+  groups.forEach((group, groupIndex) => {
+    allocate(group.chunkIndexes.map(index => salience[index]), sectionQuotas[groupIndex])
+      .forEach((count, position) => {
+        plan[group.chunkIndexes[position]] = count;
+      });
+  });
+  return plan;
+};
+
+/**
+ * Reports how many questions each section of the chunked text received.
+ * Questions are matched to sections by the chunk they came from, or otherwise
+ * (as for table and figure questions) by their source and pages.
+ */
+export const buildCoverageReport = (chunks: TextChunk[], questions: QuizQuestion[]): CoverageReport => {
+  const groups = groupChunksBySection(chunks);
+  const sectionOfChunk = new Map<string, number>();
+  groups.forEach((group, groupIndex) => {
+    group.chunkIndexes.forEach(index => sectionOfChunk.set(chunks[index].id, groupIndex));
+  });
+
+  const questionCounts = groups.map(() => 0);
+  questions.forEach(question => {
+    const groupIndex = (question.chunkId !== undefined ? sectionOfChunk.get(question.chunkId) : undefined) ??
+      findSectionByPages(chunks, groups, question);
+    if (groupIndex !== undefined) {
+      questionCounts[groupIndex]++;
+    }
+  });
+
+  const sections = groups.map((group, groupIndex): CoverageSection => {
+    const groupChunks = group.chunkIndexes.map(index => chunks[index]);
+    return {
+      label: group.label,
+      pageNumbers: [...new Set(groupChunks.flatMap(chunk => chunk.pageNumbers ?? []))].sort((a, b) => a - b),
+      pageUnit: groupChunks[0].pageUnit,
+      wordCount: groupChunks.reduce((sum, chunk) => sum + chunk.wordCount, 0),
+      questionCount: questionCounts[groupIndex]
+    };
+  });
+
+  const totalWords = sections.reduce((sum, section) => sum + section.wordCount, 0);
+  const coveredWords = sections
+    .filter(section => section.questionCount > 0)
+    .reduce((sum, section) => sum + section.wordCount, 0);
+
+  return {
+    sections,
+    coveredSections: sections.filter(section => section.questionCount > 0).length,
+    coveredShare: totalWords > 0 ? coveredWords / totalWords : 0
+  };
+};
+
+/**
+ * Groups chunks by source and section, in document order. Chunks outside any
+ * section are split into runs of consecutive chunks labelled by their pages.
+ */
+const groupChunksBySection = (chunks: TextChunk[]): SectionGroup[] => {
+  const sourceIds = new Set(chunks.map(chunk => chunk.sourceId));
+  const unsectionedCounts = new Map<string | undefined, number>();
+  chunks.forEach(chunk => {
+    if (!chunk.sectionPath) {
+      unsectionedCounts.set(chunk.sourceId, (unsectionedCounts.get(chunk.sourceId) ?? 0) + 1);
+    }
+  });
+
+  const groups = new Map<string, SectionGroup>();
+  const unsectionedSeen = new Map<string | undefined, number>();
+  chunks.forEach((chunk, index) => {
+    let key: string;
+    if (chunk.sectionPath) {
+      key = `${chunk.sourceId ?? ''}\u001f${chunk.sectionPath.join('\u001f')}`;
+    } else {
+      const total = unsectionedCounts.get(chunk.sourceId) ?? 1;
+      const seen = unsectionedSeen.get(chunk.sourceId) ?? 0;
+      unsectionedSeen.set(chunk.sourceId, seen + 1);
+      const parts = Math.min(MAX_UNSECTIONED_PARTS, Math.ceil(total / CHUNKS_PER_PART));
+      key = `${chunk.sourceId ?? ''}\u001f#${Math.floor(seen * parts / total)}`;
+    }
+
+    const group = groups.get(key) ?? { label: '', chunkIndexes: [] };
+    group.chunkIndexes.push(index);
+    groups.set(key, group);
+  });
+
+  const groupList = [...groups.values()];
+  groupList.forEach((group, groupIndex) => {
+    const first = chunks[group.chunkIndexes[0]];
+    const pageNumbers = group.chunkIndexes.flatMap(index => chunks[index].pageNumbers ?? []);
+    const label = first.sectionPath
+      ? formatSectionPath(first.sectionPath)
+      : pageNumbers.length > 0 ? formatPageNumbers(pageNumbers, first.pageUnit) : `Part ${groupIndex + 1}`;
+    group.label = sourceIds.size > 1 && first.sourceName ? `${first.sourceName} › ${label}` : label;
+  });
+  return groupList;
+};
+
+/**
+ * Finds the section of a question without a known chunk: the first section
+ * from the question's source on its pages, preferring one named by its topic
+ */
+const findSectionByPages = (
+  chunks: TextChunk[],
+  groups: SectionGroup[],
+  question: QuizQuestion
+): number | undefined => {
+  if (!question.pageNumbers?.length) {
+    return undefined;
+  }
+  const candidates = groups
+    .map((group, groupIndex) => ({ group, groupIndex }))
+    .filter(({ group }) => group.chunkIndexes.some(index => {
+      const chunk = chunks[index];
+      return chunk.sourceId === question.sourceId &&
+        (chunk.pageNumbers ?? []).some(page => question.pageNumbers!.includes(page));
+    }));
+
+  const byTopic = candidates.find(({ group }) => {
+    const sectionPath = chunks[group.chunkIndexes[0]].sectionPath;
+    return sectionPath !== undefined && formatSectionPath(sectionPath) === question.topic;
+  });
+  return (byTopic ?? candidates[0])?.groupIndex;
+};
+
+/**
+ * Terms weighted highest by TF-IDF across the chunks, treating chunks as the documents
+ */
+const findKeywords = (chunkTerms: string[][]): Set<string> => {
+  const termFrequency = new Map<string, number>();
+  const documentFrequency = new Map<string, number>();
+  chunkTerms.forEach(terms => {
+    terms.forEach(term => termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1));
+    new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  });
+
+  // Smoothed so terms found in every chunk still count when there are only a few chunks
+  const weights = [...termFrequency].map(([term, frequency]): [string, number] => [
+    term,
+    frequency * Math.log(1 + chunkTerms.length / (documentFrequency.get(term) ?? 1))
+  ]);
+  return new Set(weights.sort((a, b) => b[1] - a[1]).slice(0, KEYWORD_COUNT).map(([term]) => term));
+};
+
+/**
+ * Shares a count between items by weight. With fewer than one per item, the
+ * items are split into consecutive bands and the heaviest in each band gets
+ * one, keeping the picks spread; otherwise every item gets one and the rest
+ * go by weight, largest remainder first.
+ */
+const allocate = (weights: number[], count: number): number[] => {
+  const counts = weights.map(() => 0);
+  if (count <= 0 || weights.length === 0) {
+    return counts;
+  }
+
+  if (count < weights.length) {
+    for (let band = 0; band < count; band++) {
+      const start = Math.floor(band * weights.length / count);
+      const end = Math.floor((band + 1) * weights.length / count);
+      let heaviest = start;
+      for (let index = start + 1; index < end; index++) {
+        if (weights[index] > weights[heaviest]) heaviest = index;
+      }
+      counts[heaviest] = 1;
+    }
+    return counts;
+  }
+
+  const extra = count - weights.length;
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map(weight => (totalWeight > 0 ? extra * weight / totalWeight : extra / weights.length));
+  shares.forEach((share, index) => {
+    counts[index] = 1 + Math.floor(share);
+  });
+
+  let remaining = count - counts.reduce((sum, itemCount) => sum + itemCount, 0);
+  const byRemainder = shares
+    .map((share, index) => ({ remainder: share - Math.floor(share), index }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    counts[index]++;
+    remaining--;
+  }
+  return counts;
+};
@@ -0,0 +1,240 @@
+/**
+ * Document Diagnostics Utility
+ * Reports on the quality of a parsed document's text before a quiz is generated:
+ * garbled words, text per page, image-only pages, language, readability and boilerplate
+ */
+
+import { formatPageRanges, hasUsableTextLayer, type ParsedPDF } from './pdfParser';
+import { getPageUnit, getPageUnitLabel } from './documentStructure';
+import { countWords, findSentenceEnds, getLanguageName, segmentWords } from './language';
+import type { BoilerplateCleanup } from './boilerplate';
+
+export type DiagnosticSeverity = 'warning' | 'error';
+
+export interface DiagnosticWarning {
+  severity: DiagnosticSeverity; // Errors leave nothing a quiz can be made from
+  message: string;
+}
+
+export interface DocumentDiagnostics {
+  wordCount: number;
+  language?: string;
+  garbledShare: number; // 0-1 share of sampled words that look garbled
+  wordsPerPage: { min: number; median: number; max: number };
+  sparsePages: number[]; // Pages with far less text than the document's typical page
+  imageOnlyPages: number[]; // Pages with no readable text, not even from OCR
+  lowConfidencePages: number[]; // OCR pages whose recognition is unreliable
+  averageSentenceWords: number;
+  readingEase?: number; // Flesch reading ease, 0 (hard) to 100 (easy); English only
+  boilerplateShare: number; // 0-1 share of words that are repeated headers, footers and page numbers
+  warnings: DiagnosticWarning[];
+}
+
+const MIN_QUIZ_WORDS = 50;
+// Garbling and readability are measured on the start of the document only
+const SAMPLE_LENGTH = 100000;
+const GARBLED_WARNING_SHARE = 0.05;
+const SPARSE_PAGE_SHARE = 0.2; // Of the median words per page
+const SPARSE_WARNING_SHARE = 0.2; // Of all pages
+const LOW_OCR_CONFIDENCE = 60;
+const LONG_SENTENCE_WORDS = 45;
+const DIFFICULT_READING_EASE = 30;
+const BOILERPLATE_WARNING_SHARE = 0.1;
+
+// One-letter Latin words that are real words in common languages
+const SINGLE_LETTER_WORDS = new Set(['a', 'i', 'o', 'y', 'e', 'u', 'à', 'é', 'w', 'z']);
+const LATIN_VOWELS = /[aeiouyàáâãäåæèéêëìíîïòóôõöøùúûüýÿœ]/i;
+const CONSONANT_RUN = /[bcdfghjklmnpqrstvwxz]{6,}/i;
+const REPEATED_CHARACTER = /(.)\1{3,}/u;
+// Replacement characters, private-use glyphs and control codes come from broken font encodings
+const BROKEN_CHARACTER = /[\uFFFD\p{Co}\p{Cc}]/u;
+
+/**
+ * Builds a quality report for a document, with warnings that explain what is
+ * likely to make its quiz poor
+ */
+export const diagnoseDocument = (
+  parsed: ParsedPDF,
+  cleanup?: BoilerplateCleanup | null
+): DocumentDiagnostics => {
+  const document = cleanup?.cleaned ?? parsed;
+  const { language } = document;
+  const pageUnit = getPageUnit(parsed.format);
+  const sample = document.text.slice(0, SAMPLE_LENGTH);
+  const sampleWords = segmentWords(sample, language);
+
+  const pageWordCounts = document.pageTexts.map(page => countWords(page.text, language));
+  const sortedCounts = [...pageWordCounts].sort((a, b) => a - b);
+  const median = sortedCounts[Math.floor(sortedCounts.length / 2)] ?? 0;
+
+  // Only PDF pages can be scans; an empty slide or chapter is just empty
+  const imageOnlyPages = (parsed.format ?? 'pdf') === 'pdf'
+    ? document.pageTexts.filter(page => !page.fromOCR && !hasUsableTextLayer(page.text)).map(page => page.pageNumber)
+    : [];
+  const sparsePages = document.pageTexts
+    .filter((page, index) => !imageOnlyPages.includes(page.pageNumber) &&
+      pageWordCounts[index] < median * SPARSE_PAGE_SHARE)
+    .map(page => page.pageNumber);
+  const lowConfidencePages = document.pageTexts
+    .filter(page => page.fromOCR && (page.ocrConfidence ?? 0) < LOW_OCR_CONFIDENCE)
+    .map(page => page.pageNumber);
+
+  const sentenceCount = Math.max(1, findSentenceEnds(sample, language).length);
+  const averageSentenceWords = Math.round(sampleWords.length / sentenceCount);
+  const boilerplateShare = cleanup && parsed.wordCount > 0
+    ? Math.max(0, parsed.wordCount - cleanup.cleaned.wordCount) / parsed.wordCount
+    : 0;
+
+  const diagnostics: DocumentDiagnostics = {
+    wordCount: document.wordCount,
+    language,
+    garbledShare: sampleWords.length > 0
+      ? sampleWords.filter(word => isGarbled(word, language)).length / sampleWords.length
+      : 0,
+    wordsPerPage: { min: sortedCounts[0] ?? 0, median, max: sortedCounts[sortedCounts.length - 1] ?? 0 },
+    sparsePages,
+    imageOnlyPages,
+    lowConfidencePages,
+    averageSentenceWords,
+    readingEase: language === 'en' && sampleWords.length > 0
+      ? calculateReadingEase(sampleWords, sentenceCount)
+      : undefined,
+    boilerplateShare,
+    warnings: []
+  };
+
+  diagnostics.warnings = buildWarnings(diagnostics, parsed, getPageUnitLabel(pageUnit, true).toLowerCase());
+  return diagnostics;
+};
+
+/**
+ * Puts each problem the report found into a sentence a user can act on
+ */
+const buildWarnings = (
+  diagnostics: DocumentDiagnostics,
+  parsed: ParsedPDF,
+  pagesLabel: string
+): DiagnosticWarning[] => {
+  const warnings: DiagnosticWarning[] = [];
+  const pageCount = parsed.pageTexts.length;
+
+  if (diagnostics.wordCount < MIN_QUIZ_WORDS) {
+    warnings.push({
+      severity: 'error',
+      message: `Only ${diagnostics.wordCount} words of text were found; at least ${MIN_QUIZ_WORDS} are needed for a quiz.`
+    });
+  }
+
+  if (diagnostics.imageOnlyPages.length > 0) {
+    warnings.push({
+      severity: diagnostics.imageOnlyPages.length === pageCount ? 'error' : 'warning',
+      message: `${capitalize(describePages(diagnostics.imageOnlyPages, pagesLabel))} ${pluralVerb(diagnostics.imageOnlyPages, 'appears', 'appear')} to be images only; no text could be read from them, so they are left out of the quiz.`
+    });
+  }
+
+  if (diagnostics.lowConfidencePages.length > 0) {
+    warnings.push({
+      severity: 'warning',
+      message: `${capitalize(describePages(diagnostics.lowConfidencePages, pagesLabel))} ${pluralVerb(diagnostics.lowConfidencePages, 'was', 'were')} scanned and recognized with low confidence; questions from them may contain misread words.`
+    });
+  }
+
+  if (diagnostics.garbledShare >= GARBLED_WARNING_SHARE) {
+    warnings.push({
+      severity: 'warning',
+      message: `About ${Math.round(diagnostics.garbledShare * 100)}% of words look garbled, which usually means a broken font encoding or poor scan quality.`
+    });
+  }
+
+  if (pageCount > 1 && diagnostics.sparsePages.length >= pageCount * SPARSE_WARNING_SHARE) {
+    warnings.push({
+      severity: 'warning',
+      message: `${capitalize(describePages(diagnostics.sparsePages, pagesLabel))} ${pluralVerb(diagnostics.sparsePages, 'has', 'have')} very little text compared with the rest of the document.`
+    });
+  }
+
+  if (!diagnostics.language) {
+    warnings.push({
+      severity: 'warning',
+      message: 'The language could not be detected, so words and sentences are split by general rules.'
+    });
+  } else if (parsed.metadata?.language && !parsed.metadata.language.toLowerCase().startsWith(diagnostics.language)) {
+    warnings.push({
+      severity: 'warning',
+      message: `The document says it is in ${getLanguageName(parsed.metadata.language)}, but its text reads as ${getLanguageName(diagnostics.language)}.`
+    });
+  }
+
+  if (diagnostics.averageSentenceWords > LONG_SENTENCE_WORDS) {
+    warnings.push({
+      severity: 'warning',
+      message: `Sentences average ${diagnostics.averageSentenceWords} words, which suggests punctuation was lost during extraction.`
+    });
+  } else if (diagnostics.readingEase !== undefined && diagnostics.readingEase < DIFFICULT_READING_EASE) {
+    warnings.push({
+      severity: 'warning',
+      message: `The text is very hard to read (reading ease ${Math.round(diagnostics.readingEase)}), so questions may be dense.`
+    });
+  }
+
+  if (diagnostics.boilerplateShare >= BOILERPLATE_WARNING_SHARE) {
+    warnings.push({
+      severity: 'warning',
+      message: `About ${Math.round(diagnostics.boilerplateShare * 100)}% of the text is repeated headers, footers and page numbers; keep header and footer removal on.`
+    });
+  }
+
+  return warnings;
+};
+
+/**
+ * Checks whether a word looks like extraction noise rather than language
+ */
+const isGarbled = (word: string, language?: string): boolean => {
+  if (BROKEN_CHARACTER.test(word) || REPEATED_CHARACTER.test(word)) {
+    return true;
+  }
+  if (!/^\p{Script=Latin}+$/u.test(word)) {
+    return false;
+  }
+
+  const lower = word.toLowerCase();
+  if (lower.length === 1) {
+    return !SINGLE_LETTER_WORDS.has(lower);
+  }
+  // German and Dutch compounds legitimately run many consonants together
+  const allowsLongConsonantRuns = language === 'de' || language === 'nl';
+  return (lower.length >= 4 && !LATIN_VOWELS.test(lower) && word !== word.toUpperCase()) ||
+    (!allowsLongConsonantRuns && CONSONANT_RUN.test(lower));
+};
+
+/**
+ * Flesch reading ease: 206.835 − 1.015 × words per sentence − 84.6 × syllables per word
+ */
+const calculateReadingEase = (words: string[], sentenceCount: number): number => {
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const score = 206.835 - 1.015 * (words.length / sentenceCount) - 84.6 * (syllables / words.length);
+  return Math.min(100, Math.max(0, score));
+};
+
+/**
+ * Estimates an English word's syllables from its vowel groups
+ */
+const countSyllables = (word: string): number => {
+  const lower = word.toLowerCase().replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, lower.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+};
+
+/**
+ * Describes a list of pages, e.g. "pages 4–9" or "page 3"
+ */
+const describePages = (pageNumbers: number[], pagesLabel: string): string => {
+  const label = pageNumbers.length === 1 ? pagesLabel.replace(/s$/, '') : pagesLabel;
+  return `${label} ${formatPageRanges(pageNumbers)}`;
+};
+
+const pluralVerb = (pageNumbers: number[], singular: string, plural: string): string => {
+  return pageNumbers.length === 1 ? singular : plural;
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
@@ -0,0 +1,95 @@
+/**
+ * Document Parser Utility
+ * Detects the format of an uploaded document and routes it to the matching parser
+ */
+
+import { parsePDF, type ParsedPDF, type ParseOptions, type ParseProgressCallback } from './pdfParser';
+import { parseDOCX, DOCX_MIME_TYPE } from './docxParser';
+import { parsePPTX, PPTX_MIME_TYPE } from './pptxParser';
+import { parseEPUB, EPUB_MIME_TYPE } from './epubParser';
+import { parseMarkdown } from './markdownParser';
+import { parseHTML } from './htmlParser';
+import { parseTextFile } from './textParser';
+import type { DocumentFormat } from './documentStructure';
+import { detectLanguage } from './language';
+
+const FORMAT_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  [DOCX_MIME_TYPE]: 'docx',
+  [PPTX_MIME_TYPE]: 'pptx',
+  [EPUB_MIME_TYPE]: 'epub',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'text/plain': 'text'
+};
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  epub: 'epub',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text'
+};
+
+const STRUCTURED_PARSERS: Record<
+  Exclude<DocumentFormat, 'pdf'>,
+  (file: File, onProgress?: ParseProgressCallback) => Promise<ParsedPDF>
+> = {
+  docx: parseDOCX,
+  pptx: parsePPTX,
+  epub: parseEPUB,
+  markdown: parseMarkdown,
+  html: parseHTML,
+  text: parseTextFile
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(FORMAT_BY_EXTENSION).map(ext => `.${ext}`);
+
+/**
+ * Detects a file's format from its MIME type, falling back to its extension
+ * (browsers often report an empty type for Office files)
+ */
+export const getDocumentFormat = (file: File): DocumentFormat | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const byExtension = FORMAT_BY_EXTENSION[extension];
+
+  // Some systems report .md files as text/plain, so a known extension wins for text types
+  if (byExtension && (file.type === '' || file.type.startsWith('text/'))) {
+    return byExtension;
+  }
+
+  return FORMAT_BY_MIME_TYPE[file.type] || byExtension || null;
+};
+
+/**
+ * Parses any supported document into the common ParsedPDF shape, with its language detected
+ */
+export const parseDocumentFile = async (
+  file: File,
+  options: ParseOptions = {}
+): Promise<ParsedPDF> => {
+  const format = getDocumentFormat(file);
+
+  if (!format) {
+    throw new Error(`Unsupported document type: ${file.name}`);
+  }
+  let parsed: ParsedPDF;
+  if (format === 'pdf') {
+    parsed = await parsePDF(file, options);
+  } else {
+    // Slide decks report each slide; other formats parse in one step, so their
+    // progress jumps straight to complete
+    parsed = await STRUCTURED_PARSERS[format](file, options.onProgress);
+    options.onProgress?.(parsed.pages, parsed.pages);
+  }
+
+  return {
+    ...parsed,
+    language: parsed.language ?? detectLanguage(parsed.text, parsed.metadata?.language)
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * Document Processor
+ * Main-thread client for the document worker that parses and chunks documents
+ */
+
+import { PDFPasswordError, type ParsedPDF, type PageText } from './pdfParser';
+import type { ChunkingOptions, TextChunk } from './chunker';
+import type { PageUnit } from './documentStructure';
+import type { DocumentAnalysis } from './documentSources';
+
+export type DocumentProgress =
+  | { stage: 'parsing'; pagesParsed: number; totalPages: number }
+  | { stage: 'chunking'; chunksBuilt: number; processedChars: number; totalChars: number };
+
+export interface ProcessedDocument extends DocumentAnalysis {
+  parsed: ParsedPDF;
+}
+
+type WorkerChunkingOptions = Omit<ChunkingOptions, 'onProgress'>;
+
+export type DocumentWorkerRequest =
+  | { id: number; type: 'parse'; file: File; password?: string }
+  | { id: number; type: 'analyze'; parsed: ParsedPDF }
+  | { id: number; type: 'chunk'; text: string; options: WorkerChunkingOptions; pages?: PageText[] };
+
+export type DocumentWorkerResponse =
+  | { id: number; type: 'progress'; progress: DocumentProgress }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string; passwordReason?: PDFPasswordError['reason'] };
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: DocumentProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+/**
+ * Lazily starts the shared document worker
+ */
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/documentWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<DocumentWorkerResponse>) => {
+      const message = event.data;
+      const pending = pendingRequests.get(message.id);
+      if (!pending) return;
+
+      if (message.type === 'progress') {
+        pending.onProgress?.(message.progress);
+        return;
+      }
+
+      pendingRequests.delete(message.id);
+      if (message.type === 'result') {
+        pending.resolve(message.result);
+      } else if (message.passwordReason) {
+        pending.reject(new PDFPasswordError(message.passwordReason));
+      } else {
+        pending.reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      const error = new Error(event.message || 'Document worker crashed');
+      pendingRequests.forEach(pending => pending.reject(error));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+
+  return worker;
+};
+
+/**
+ * Sends a request to the worker and resolves with its result
+ */
+const runInWorker = <T>(
+  request: DocumentWorkerRequest,
+  onProgress?: (progress: DocumentProgress) => void
+): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    pendingRequests.set(request.id, {
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      onProgress
+    });
+    getWorker().postMessage(request);
+  });
+};
+
+/**
+ * Parses a supported document in the document worker, along with its
+ * boilerplate and diagnostics. The password is only posted to the worker, never stored.
+ */
+export const parseDocument = (
+  file: File,
+  onProgress?: (progress: DocumentProgress) => void,
+  password?: string
+): Promise<ProcessedDocument> => {
+  return runInWorker<ProcessedDocument>({ id: nextRequestId++, type: 'parse', file, password }, onProgress);
+};
+
+/**
+ * Finds the boilerplate and diagnostics of an already parsed document, such as
+ * a cached one or pasted text, in the document worker
+ */
+export const analyzeParsedDocument = (parsed: ParsedPDF): Promise<DocumentAnalysis> => {
+  return runInWorker<DocumentAnalysis>({ id: nextRequestId++, type: 'analyze', parsed });
+};
+
+/**
+ * Describes worker progress for the user, e.g. "Processing slide 3 of 24..." or
+ * "12 chunks built...". Returns null before the page count is known.
+ */
+export const describeDocumentProgress = (progress: DocumentProgress, unit: PageUnit): string | null => {
+  if (progress.stage === 'chunking') {
+    return `${progress.chunksBuilt} ${progress.chunksBuilt === 1 ? 'chunk' : 'chunks'} built...`;
+  }
+  if (progress.totalPages === 0) {
+    return null;
+  }
+  const current = Math.min(progress.pagesParsed + 1, progress.totalPages);
+  return `Processing ${unit} ${current} of ${progress.totalPages}...`;
+};
+
+/**
+ * Chunks document text in the document worker
+ */
+export const chunkDocument = (
+  text: string,
+  options: WorkerChunkingOptions = {},
+  pages?: PageText[],
+  onProgress?: (progress: DocumentProgress) => void
+): Promise<TextChunk[]> => {
+  return runInWorker<TextChunk[]>({ id: nextRequestId++, type: 'chunk', text, options, pages }, onProgress);
+};
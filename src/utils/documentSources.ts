@@ -0,0 +1,193 @@
+/**
+ * Document Sources Utility
+ * Tracks the documents loaded into a session and combines them for quiz generation
+ */
+
+import {
+  extractPages,
+  extractTextRanges,
+  normalizePageRange,
+  parsePageRange,
+  type ParsedPDF
+} from './pdfParser';
+import { getPageUnit } from './documentStructure';
+import { flattenSections, getSectionRanges } from './sections';
+import { removeBoilerplate, type BoilerplateCleanup } from './boilerplate';
+import { diagnoseDocument, type DocumentDiagnostics } from './diagnostics';
+import { hashString } from './hash';
+import type { TextChunk } from './chunker';
+import type { QuizTableSource } from './tableQuestions';
+import type { QuizFigureSource } from './figureQuestions';
+
+export interface DocumentSource {
+  id: string; // Derived from the file and its text, so it is the same on every upload
+  name: string;
+  fileKey?: string; // Identifies the uploaded file so it is not added twice
+  parsed: ParsedPDF; // As extracted, before any cleanup
+  cleanup: BoilerplateCleanup | null; // Headers, footers and page numbers found in PDFs
+  cleanupEnabled: boolean;
+  diagnostics: DocumentDiagnostics; // Text quality report shown before generation
+  selectedChapters: number[]; // Chapters to quiz on, for e-books
+  selectedSections: string[]; // Outline sections to quiz on, for PDFs
+  pageRange: string; // Pages or slides to quiz on as typed, e.g. "1-5, 9"; empty for all
+}
+
+export interface DocumentAnalysis {
+  cleanup: BoilerplateCleanup | null;
+  diagnostics: DocumentDiagnostics;
+}
+
+/**
+ * Finds a parsed document's boilerplate and reports on its text quality.
+ * Only PDFs have repeating headers and footers to remove. Runs in the document
+ * worker, as both passes read every page.
+ */
+export const analyzeDocument = (parsed: ParsedPDF): DocumentAnalysis => {
+  const cleanup = (parsed.format ?? 'pdf') === 'pdf' ? removeBoilerplate(parsed) : null;
+  return { cleanup, diagnostics: diagnoseDocument(parsed, cleanup) };
+};
+
+/**
+ * Creates a session source for a parsed document, with every chapter and section selected.
+ * Boilerplate removal starts out on whenever anything repeating was found.
+ */
+export const createDocumentSource = (
+  parsed: ParsedPDF,
+  { cleanup, diagnostics }: DocumentAnalysis,
+  name: string,
+  fileKey?: string
+): DocumentSource => {
+  return {
+    id: `src_${hashString(fileKey ?? '', parsed.text)}`,
+    name,
+    fileKey,
+    parsed,
+    cleanup,
+    cleanupEnabled: true,
+    diagnostics,
+    selectedChapters: parsed.chapters?.map(chapter => chapter.chapterNumber) ?? [],
+    selectedSections: flattenSections(parsed.sections ?? []).map(section => section.id),
+    pageRange: ''
+  };
+};
+
+/**
+ * Returns the source's document with boilerplate removed when cleanup is on
+ */
+export const getSourceDocument = (source: DocumentSource): ParsedPDF => {
+  return source.cleanup && source.cleanupEnabled ? source.cleanup.cleaned : source.parsed;
+};
+
+/**
+ * Checks whether a source is scoped by chapter rather than by page range
+ */
+export const hasChapterSelection = (source: DocumentSource): boolean => {
+  return (source.parsed.chapters?.length ?? 0) > 0;
+};
+
+/**
+ * Resolves a source's page range against its page count
+ */
+export const getSourcePageRange = (source: DocumentSource): { pageNumbers: number[]; error?: string } => {
+  return parsePageRange(source.pageRange, source.parsed.pages);
+};
+
+/**
+ * Canonical form of a source's page range for cache keys, e.g. "12-40"
+ */
+export const getPageRangeKey = (source: DocumentSource): string => {
+  if (hasChapterSelection(source) || !source.pageRange.trim()) {
+    return 'all';
+  }
+  return normalizePageRange(getSourcePageRange(source).pageNumbers);
+};
+
+/**
+ * Returns the part of a source that the quiz should cover
+ */
+export const getSourceScope = (source: DocumentSource): ParsedPDF => {
+  const parsed = getSourceDocument(source);
+  if (hasChapterSelection(source)) {
+    return extractPages(parsed, source.selectedChapters);
+  }
+
+  // With every section selected the whole document is used, including any front matter
+  let scope = parsed;
+  const sectionCount = flattenSections(parsed.sections ?? []).length;
+  if (sectionCount > 0 && source.selectedSections.length < sectionCount) {
+    scope = extractTextRanges(parsed, getSectionRanges(parsed.sections!, source.selectedSections));
+  }
+
+  if (source.pageRange.trim()) {
+    scope = extractPages(scope, getSourcePageRange(source).pageNumbers);
+  }
+  return scope;
+};
+
+/**
+ * Checks whether a source has anything left to quiz on. A source whose report
+ * found an error, such as too little text or only images, has nothing to quiz on.
+ */
+export const hasQuizContent = (source: DocumentSource): boolean => {
+  if (source.diagnostics.warnings.some(warning => warning.severity === 'error')) {
+    return false;
+  }
+  if (hasChapterSelection(source)) {
+    return source.selectedChapters.length > 0;
+  }
+
+  const hasSections = (source.parsed.sections?.length ?? 0) > 0;
+  const pageRange = getSourcePageRange(source);
+  return (!hasSections || source.selectedSections.length > 0) &&
+    !pageRange.error && pageRange.pageNumbers.length > 0;
+};
+
+/**
+ * Marks a source's chunks with where they came from so questions can cite it
+ */
+export const tagSourceChunks = (chunks: TextChunk[], source: DocumentSource): TextChunk[] => {
+  const pageUnit = getPageUnit(source.parsed.format);
+  return chunks.map(chunk => ({
+    ...chunk,
+    id: `${source.id}_${chunk.id}`,
+    pageUnit,
+    sourceId: source.id,
+    sourceName: source.name
+  }));
+};
+
+/**
+ * Marks the tables in a source's quiz scope with where they came from
+ */
+export const tagSourceTables = (scope: ParsedPDF, source: DocumentSource): QuizTableSource[] => {
+  const pageUnit = getPageUnit(source.parsed.format);
+  return (scope.tables ?? []).map(table => ({
+    ...table,
+    pageUnit,
+    sourceId: source.id,
+    sourceName: source.name
+  }));
+};
+
+/**
+ * Marks the figures in a source's quiz scope with where they came from
+ */
+export const tagSourceFigures = (scope: ParsedPDF, source: DocumentSource): QuizFigureSource[] => {
+  const pageUnit = getPageUnit(source.parsed.format);
+  return (scope.figures ?? []).map(figure => ({
+    ...figure,
+    pageUnit,
+    sourceId: source.id,
+    sourceName: source.name
+  }));
+};
+
+/**
+ * Title for a quiz built from the given sources
+ */
+export const getSessionTitle = (sources: DocumentSource[]): string => {
+  if (sources.length === 1) {
+    return sources[0].name;
+  }
+  return sources.length > 1 ? `Combined Quiz (${sources.length} sources)` : 'AI Generated Quiz';
+};
@@ -0,0 +1,139 @@
+/**
+ * Document Structure Utility
+ * Shared block model for documents that carry structure (headings, lists, tables)
+ */
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'epub' | 'markdown' | 'html' | 'text';
+
+export type PageUnit = 'page' | 'slide' | 'chapter';
+
+export type DocumentBlock =
+  | { type: 'heading'; level: number; text: string; pageNumber: number }
+  | { type: 'paragraph'; text: string; pageNumber: number }
+  | { type: 'list_item'; level: number; ordered: boolean; text: string; pageNumber: number }
+  | { type: 'table'; rows: string[][]; pageNumber: number };
+
+export interface DocumentTable {
+  id: string; // e.g. "table-3-1" for the first table on page 3
+  pageNumber: number;
+  caption?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface DocumentFigure {
+  id: string; // e.g. "figure-3-1" for the first figure on page 3
+  pageNumber: number;
+  caption?: string;
+  image: string; // Data URL of the figure as rendered on the page, labels included
+  width: number; // Pixels
+  height: number;
+}
+
+const CAPTION_PATTERN = /^(?:table|tab\.)\s*[\dIVXLC]+[.:]?\s*/i;
+const FIGURE_CAPTION_PATTERN = /^(?:figure|fig\.)\s*\d+[a-z]?[.:]?\s*/i;
+
+/**
+ * Returns what one "page" of a document is called (slide decks count slides, e-books chapters)
+ */
+export const getPageUnit = (format?: DocumentFormat): PageUnit => {
+  if (format === 'pptx') return 'slide';
+  if (format === 'epub') return 'chapter';
+  return 'page';
+};
+
+/**
+ * Returns the display label for a page unit, e.g. "Slide" or "Chapters"
+ */
+export const getPageUnitLabel = (unit: PageUnit, plural = false): string => {
+  const label = unit.charAt(0).toUpperCase() + unit.slice(1);
+  return plural ? `${label}s` : label;
+};
+
+/**
+ * Checks whether a line of text reads like a table caption, e.g. "Table 2: Results"
+ */
+export const isTableCaption = (text: string): boolean => CAPTION_PATTERN.test(text.trim());
+
+/**
+ * Checks whether a line of text reads like a figure caption, e.g. "Fig. 3: Cell structure"
+ */
+export const isFigureCaption = (text: string): boolean => FIGURE_CAPTION_PATTERN.test(text.trim());
+
+/**
+ * Collects the table blocks of a structured document, taking the first row as
+ * headers and an adjacent "Table N" paragraph as the caption
+ */
+export const tablesFromBlocks = (blocks: DocumentBlock[]): DocumentTable[] => {
+  const tables: DocumentTable[] = [];
+  const tablesPerPage = new Map<number, number>();
+
+  blocks.forEach((block, index) => {
+    if (block.type !== 'table' || block.rows.length < 2) return;
+
+    const tableIndex = (tablesPerPage.get(block.pageNumber) ?? 0) + 1;
+    tablesPerPage.set(block.pageNumber, tableIndex);
+    const captionBlock = [blocks[index - 1], blocks[index + 1]].find(
+      neighbour => neighbour?.type === 'paragraph' && isTableCaption(neighbour.text)
+    );
+
+    tables.push({
+      id: `table-${block.pageNumber}-${tableIndex}`,
+      pageNumber: block.pageNumber,
+      caption: captionBlock?.type === 'paragraph' ? captionBlock.text : undefined,
+      headers: block.rows[0],
+      rows: block.rows.slice(1)
+    });
+  });
+
+  return tables;
+};
+
+/**
+ * Renders a block as plain text, keeping list markers and table rows readable
+ */
+export const renderBlock = (block: DocumentBlock, listIndex = 1): string => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return block.text;
+    case 'list_item': {
+      const marker = block.ordered ? `${listIndex}.` : '•';
+      return `${'  '.repeat(block.level)}${marker} ${block.text}`;
+    }
+    case 'table':
+      return block.rows.map(row => row.join(' | ')).join('\n');
+  }
+};
+
+/**
+ * Renders blocks into one text string per page.
+ * Consecutive list items stay on adjacent lines; other blocks are separated by blank lines.
+ */
+export const renderBlocksByPage = (blocks: DocumentBlock[]): string[] => {
+  const pageCount = blocks.reduce((max, block) => Math.max(max, block.pageNumber), 1);
+  const pages: string[] = Array.from({ length: pageCount }, () => '');
+  const listCounters: number[] = [];
+  let previous: DocumentBlock | null = null;
+
+  blocks.forEach(block => {
+    if (block.type === 'list_item') {
+      if (previous?.type !== 'list_item') listCounters.length = 0;
+      listCounters.length = block.level + 1;
+      listCounters[block.level] = (listCounters[block.level] || 0) + 1;
+    }
+
+    const rendered = renderBlock(block, block.type === 'list_item' ? listCounters[block.level] : 1);
+    const pageIndex = block.pageNumber - 1;
+    if (rendered.trim().length > 0) {
+      if (pages[pageIndex].length > 0) {
+        const sameList = block.type === 'list_item' && previous?.type === 'list_item';
+        pages[pageIndex] += sameList ? '\n' : '\n\n';
+      }
+      pages[pageIndex] += rendered;
+    }
+    previous = block;
+  });
+
+  return pages;
+};
@@ -0,0 +1,255 @@
+/**
+ * DOCX Parser Utility
+ * Extracts structured text (headings, lists, tables) from Word documents
+ */
+
+import { loadZip, parseXml, readXml, readCoreProperties, childElements } from './zipXml';
+import { buildPageModel, type ParsedPDF } from './pdfParser';
+import { countWords } from './language';
+import { renderBlocksByPage, tablesFromBlocks, type DocumentBlock } from './documentStructure';
+import { OMML_NS, ommlToLatex } from './math';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+interface DocxContext {
+  headingLevels: Map<string, number>; // styleId -> heading level
+  orderedLists: Map<string, boolean>; // `${numId}:${ilvl}` -> ordered
+  pageNumber: number;
+  afterExplicitBreak: boolean; // A manual page break was counted and no text has followed it yet
+}
+
+type PageBreakKind = 'explicit' | 'rendered';
+
+/**
+ * Parses a DOCX file into the same shape as a parsed PDF.
+ * Pages follow the explicit and last-rendered page breaks saved by Word.
+ */
+export const parseDOCX = async (file: File): Promise<ParsedPDF> => {
+  const zip = await loadZip(file, 'DOCX');
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('Failed to parse DOCX: word/document.xml is missing');
+  }
+
+  const context: DocxContext = {
+    headingLevels: parseHeadingStyles(await readXml(zip, 'word/styles.xml')),
+    orderedLists: parseNumbering(await readXml(zip, 'word/numbering.xml')),
+    pageNumber: 1,
+    afterExplicitBreak: false
+  };
+
+  const doc = parseXml(documentXml);
+  const body = doc.getElementsByTagNameNS(W_NS, 'body')[0];
+  const blocks: DocumentBlock[] = [];
+  if (body) {
+    collectBlocks(body, context, blocks);
+  }
+
+  const { text, pages } = buildPageModel(renderBlocksByPage(blocks));
+  const coreProps = await readCoreProperties(zip);
+
+  return {
+    text,
+    pages: pages.length,
+    pageTexts: pages,
+    wordCount: countWords(text),
+    format: 'docx',
+    blocks,
+    tables: tablesFromBlocks(blocks),
+    metadata: {
+      ...coreProps,
+      title: coreProps.title || file.name.replace(/\.docx$/i, '')
+    }
+  };
+};
+
+/**
+ * Walks body-level content, descending into content controls
+ */
+const collectBlocks = (parent: Element, context: DocxContext, blocks: DocumentBlock[]): void => {
+  childElements(parent).forEach(element => {
+    if (element.namespaceURI !== W_NS) return;
+
+    if (element.localName === 'p') {
+      const block = parseParagraph(element, context);
+      if (block) blocks.push(block);
+    } else if (element.localName === 'tbl') {
+      const rows = parseTable(element);
+      if (rows.length > 0) {
+        blocks.push({ type: 'table', rows, pageNumber: context.pageNumber });
+        context.afterExplicitBreak = false;
+      }
+    } else if (element.localName === 'sdt') {
+      const content = element.getElementsByTagNameNS(W_NS, 'sdtContent')[0];
+      if (content) collectBlocks(content, context, blocks);
+    }
+  });
+};
+
+/**
+ * Converts a paragraph into a heading, list item or plain paragraph block
+ */
+const parseParagraph = (paragraph: Element, context: DocxContext): DocumentBlock | null => {
+  const { text, breakBeforeText, breakAfterText } = readParagraphText(paragraph);
+  // Word marks the start of the page after a manual break with a rendered break
+  // as well; that is the same break, so it is only counted once
+  const repeatsExplicitBreak = breakBeforeText === 'rendered' && context.afterExplicitBreak;
+  if (breakBeforeText && !repeatsExplicitBreak) context.pageNumber++;
+  const pageNumber = context.pageNumber;
+  if (breakAfterText) context.pageNumber++;
+
+  if (text.length > 0) {
+    context.afterExplicitBreak = breakAfterText === 'explicit';
+  } else if (breakBeforeText) {
+    context.afterExplicitBreak = breakBeforeText === 'explicit';
+  }
+
+  if (text.length === 0) return null;
+
+  const properties = firstChild(paragraph, 'pPr');
+  const styleId = getVal(firstChild(properties, 'pStyle'));
+  const outlineLevel = getVal(firstChild(properties, 'outlineLvl'));
+  const headingLevel = (styleId && context.headingLevels.get(styleId))
+    || (outlineLevel !== null && Number(outlineLevel) < 9 ? Number(outlineLevel) + 1 : undefined);
+
+  if (headingLevel) {
+    return { type: 'heading', level: headingLevel, text, pageNumber };
+  }
+
+  const numbering = firstChild(properties, 'numPr');
+  const numId = getVal(firstChild(numbering, 'numId'));
+  if (numId && numId !== '0') {
+    const level = Number(getVal(firstChild(numbering, 'ilvl')) || 0);
+    const ordered = context.orderedLists.get(`${numId}:${level}`) ?? false;
+    return { type: 'list_item', level, ordered, text, pageNumber };
+  }
+
+  return { type: 'paragraph', text, pageNumber };
+};
+
+/**
+ * Reads a paragraph's text and where its page breaks fall relative to the text.
+ * A manual break is reported over a rendered one on the same side of the text.
+ */
+const readParagraphText = (paragraph: Element) => {
+  let text = '';
+  let breakBeforeText: PageBreakKind | null = null;
+  let breakAfterText: PageBreakKind | null = null;
+
+  const walk = (node: Element) => {
+    childElements(node).forEach(child => {
+      // Equations are kept as LaTeX so they can be typeset again later
+      if (child.namespaceURI === OMML_NS && (child.localName === 'oMath' || child.localName === 'oMathPara')) {
+        text += ommlToLatex(child);
+        return;
+      }
+      if (child.namespaceURI !== W_NS) return;
+      const name = child.localName;
+
+      if (name === 't') {
+        text += child.textContent || '';
+      } else if (name === 'tab') {
+        text += '\t';
+      } else if (name === 'br' || name === 'lastRenderedPageBreak') {
+        const kind: PageBreakKind | null = name === 'lastRenderedPageBreak'
+          ? 'rendered'
+          : child.getAttributeNS(W_NS, 'type') === 'page' ? 'explicit' : null;
+        if (!kind) {
+          text += '\n';
+        } else if (text.trim().length === 0) {
+          breakBeforeText = breakBeforeText === 'explicit' ? 'explicit' : kind;
+        } else {
+          breakAfterText = breakAfterText === 'explicit' ? 'explicit' : kind;
+        }
+      } else if (name !== 'pPr' && name !== 'rPr' && name !== 'delText') {
+        walk(child);
+      }
+    });
+  };
+
+  walk(paragraph);
+  return { text: text.replace(/[ \t]+/g, ' ').trim(), breakBeforeText, breakAfterText };
+};
+
+/**
+ * Reads a table as rows of cell text
+ */
+const parseTable = (table: Element): string[][] => {
+  return childElements(table)
+    .filter(row => row.namespaceURI === W_NS && row.localName === 'tr')
+    .map(row => childElements(row)
+      .filter(cell => cell.namespaceURI === W_NS && cell.localName === 'tc')
+      .map(cell => Array.from(cell.getElementsByTagNameNS(W_NS, 'p'))
+        .map(paragraph => readParagraphText(paragraph).text)
+        .filter(text => text.length > 0)
+        .join(' ')))
+    .filter(row => row.some(cell => cell.length > 0));
+};
+
+/**
+ * Maps paragraph style IDs to heading levels using the built-in style names
+ */
+const parseHeadingStyles = (styles: Document | null): Map<string, number> => {
+  const levels = new Map<string, number>();
+  if (!styles) return levels;
+
+  Array.from(styles.getElementsByTagNameNS(W_NS, 'style')).forEach(style => {
+    const styleId = style.getAttributeNS(W_NS, 'styleId');
+    const name = (getVal(firstChild(style, 'name')) || '').toLowerCase();
+    const outlineLevel = getVal(firstChild(firstChild(style, 'pPr'), 'outlineLvl'));
+    const headingMatch = name.match(/^heading (\d)$/);
+
+    if (!styleId) return;
+    if (name === 'title') {
+      levels.set(styleId, 1);
+    } else if (headingMatch) {
+      levels.set(styleId, Number(headingMatch[1]));
+    } else if (outlineLevel !== null && Number(outlineLevel) < 9) {
+      levels.set(styleId, Number(outlineLevel) + 1);
+    }
+  });
+
+  return levels;
+};
+
+/**
+ * Works out which list levels are numbered rather than bulleted
+ */
+const parseNumbering = (numbering: Document | null): Map<string, boolean> => {
+  const ordered = new Map<string, boolean>();
+  if (!numbering) return ordered;
+
+  const abstractFormats = new Map<string, Map<number, boolean>>();
+  Array.from(numbering.getElementsByTagNameNS(W_NS, 'abstractNum')).forEach(abstractNum => {
+    const levels = new Map<number, boolean>();
+    childElements(abstractNum)
+      .filter(level => level.localName === 'lvl')
+      .forEach(level => {
+        const format = getVal(firstChild(level, 'numFmt'));
+        levels.set(Number(level.getAttributeNS(W_NS, 'ilvl') || 0), !!format && format !== 'bullet' && format !== 'none');
+      });
+    abstractFormats.set(abstractNum.getAttributeNS(W_NS, 'abstractNumId') || '', levels);
+  });
+
+  Array.from(numbering.getElementsByTagNameNS(W_NS, 'num')).forEach(num => {
+    const numId = num.getAttributeNS(W_NS, 'numId');
+    const abstractId = getVal(firstChild(num, 'abstractNumId'));
+    abstractFormats.get(abstractId || '')?.forEach((isOrdered, level) => {
+      ordered.set(`${numId}:${level}`, isOrdered);
+    });
+  });
+
+  return ordered;
+};
+
+const firstChild = (node: Element | null | undefined, localName: string): Element | null => {
+  if (!node) return null;
+  return childElements(node).find(child => child.namespaceURI === W_NS && child.localName === localName) || null;
+};
+
+const getVal = (node: Element | null): string | null => {
+  return node ? node.getAttributeNS(W_NS, 'val') : null;
+};
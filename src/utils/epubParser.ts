@@ -0,0 +1,181 @@
+/**
+ * EPUB Parser Utility
+ * Extracts chapter text and titles from EPUB e-books by following the OPF spine
+ */
+
+import type JSZip from 'jszip';
+import { loadZip, readXml, parseXml, resolvePath } from './zipXml';
+import { elementToBlocks } from './htmlParser';
+import { buildPageModel, type ParsedPDF } from './pdfParser';
+import { countWords } from './language';
+import { renderBlocksByPage, tablesFromBlocks, type DocumentBlock } from './documentStructure';
+
+const CONTAINER_NS = 'urn:oasis:names:tc:opendocument:xmlns:container';
+const OPF_NS = 'http://www.idpf.org/2007/opf';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const NCX_NS = 'http://www.daisy.org/z3986/2005/ncx/';
+const OPS_NS = 'http://www.idpf.org/2007/ops';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+export const EPUB_MIME_TYPE = 'application/epub+zip';
+
+export interface DocumentChapter {
+  chapterNumber: number; // Matches the page number of the chapter's text
+  title: string;
+}
+
+interface ManifestItem {
+  href: string; // Resolved path inside the package
+  mediaType: string;
+  properties: string;
+}
+
+/**
+ * Parses an EPUB file into the same shape as a parsed PDF, with one page per chapter
+ */
+export const parseEPUB = async (file: File): Promise<ParsedPDF> => {
+  const zip = await loadZip(file, 'EPUB');
+
+  const container = await readXml(zip, 'META-INF/container.xml');
+  const opfPath = container?.getElementsByTagNameNS(CONTAINER_NS, 'rootfile')[0]?.getAttribute('full-path');
+  const opf = opfPath ? await readXml(zip, opfPath) : null;
+  if (!opfPath || !opf) {
+    throw new Error('Failed to parse EPUB: package document is missing');
+  }
+
+  const opfDirectory = opfPath.substring(0, opfPath.lastIndexOf('/') + 1);
+  const manifest = readManifest(opf, opfDirectory);
+  const navTitles = await readNavTitles(zip, opf, manifest);
+
+  const blocks: DocumentBlock[] = [];
+  const chapters: DocumentChapter[] = [];
+  const spineItems = Array.from(opf.getElementsByTagNameNS(OPF_NS, 'itemref'));
+
+  for (const itemref of spineItems) {
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    if (!item || !/html/.test(item.mediaType)) continue;
+
+    const xhtml = await zip.file(item.href)?.async('string');
+    if (!xhtml) continue;
+
+    const chapterNumber = chapters.length + 1;
+    const doc = parseXml(xhtml, 'application/xhtml+xml');
+    const body = doc.getElementsByTagNameNS(XHTML_NS, 'body')[0] || doc.documentElement;
+    const chapterBlocks = elementToBlocks(body, chapterNumber);
+    if (chapterBlocks.length === 0) continue;
+
+    const firstHeading = chapterBlocks.find(
+      (block): block is Extract<DocumentBlock, { type: 'heading' }> => block.type === 'heading'
+    );
+    chapters.push({
+      chapterNumber,
+      title: navTitles.get(item.href) || firstHeading?.text || `Chapter ${chapterNumber}`
+    });
+    blocks.push(...chapterBlocks);
+  }
+
+  const { text, pages } = buildPageModel(renderBlocksByPage(blocks));
+
+  return {
+    text,
+    pages: chapters.length,
+    pageTexts: pages,
+    wordCount: countWords(text),
+    format: 'epub',
+    blocks,
+    tables: tablesFromBlocks(blocks),
+    chapters,
+    metadata: {
+      title: readDublinCore(opf, 'title') || file.name.replace(/\.epub$/i, ''),
+      author: readDublinCore(opf, 'creator'),
+      subject: readDublinCore(opf, 'subject'),
+      language: readDublinCore(opf, 'language')
+    }
+  };
+};
+
+/**
+ * Reads the OPF manifest, keyed by item ID
+ */
+const readManifest = (opf: Document, opfDirectory: string): Map<string, ManifestItem> => {
+  const manifest = new Map<string, ManifestItem>();
+
+  Array.from(opf.getElementsByTagNameNS(OPF_NS, 'item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) return;
+
+    manifest.set(id, {
+      href: resolvePath(opfDirectory, decodeHref(href)),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || ''
+    });
+  });
+
+  return manifest;
+};
+
+/**
+ * Reads chapter titles from the EPUB 3 nav document, falling back to the EPUB 2 NCX
+ */
+const readNavTitles = async (
+  zip: JSZip,
+  opf: Document,
+  manifest: Map<string, ManifestItem>
+): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  const addTitle = (directory: string, href: string | null, title: string | null | undefined) => {
+    const cleanTitle = title?.replace(/\s+/g, ' ').trim();
+    if (!href || !cleanTitle) return;
+    const path = resolvePath(directory, decodeHref(href.split('#')[0]));
+    if (!titles.has(path)) titles.set(path, cleanTitle);
+  };
+
+  const navItem = Array.from(manifest.values()).find(item => item.properties.split(/\s+/).includes('nav'));
+  const navXml = navItem ? await zip.file(navItem.href)?.async('string') : undefined;
+  if (navItem && navXml) {
+    const directory = navItem.href.substring(0, navItem.href.lastIndexOf('/') + 1);
+    const navDoc = parseXml(navXml, 'application/xhtml+xml');
+    const navs = Array.from(navDoc.getElementsByTagNameNS(XHTML_NS, 'nav'));
+    const tocNav = navs.find(nav => nav.getAttributeNS(OPS_NS, 'type') === 'toc') || navs[0];
+
+    Array.from(tocNav?.getElementsByTagNameNS(XHTML_NS, 'a') || []).forEach(link => {
+      addTitle(directory, link.getAttribute('href'), link.textContent);
+    });
+    if (titles.size > 0) return titles;
+  }
+
+  const tocId = opf.getElementsByTagNameNS(OPF_NS, 'spine')[0]?.getAttribute('toc');
+  const ncxItem = tocId ? manifest.get(tocId) : undefined;
+  const ncx = ncxItem ? await readXml(zip, ncxItem.href) : null;
+  if (ncxItem && ncx) {
+    const directory = ncxItem.href.substring(0, ncxItem.href.lastIndexOf('/') + 1);
+    Array.from(ncx.getElementsByTagNameNS(NCX_NS, 'navPoint')).forEach(navPoint => {
+      const label = navPoint.getElementsByTagNameNS(NCX_NS, 'text')[0]?.textContent;
+      const src = navPoint.getElementsByTagNameNS(NCX_NS, 'content')[0]?.getAttribute('src');
+      addTitle(directory, src || null, label);
+    });
+  }
+
+  return titles;
+};
+
+/**
+ * Decodes percent-escapes in an href. A malformed escape such as "50%-off.xhtml"
+ * is left as written rather than failing the whole book.
+ */
+const decodeHref = (href: string): string => {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+};
+
+/**
+ * Reads a Dublin Core field from the OPF metadata
+ */
+const readDublinCore = (opf: Document, name: string): string | undefined => {
+  const value = opf.getElementsByTagNameNS(DC_NS, name)[0]?.textContent?.trim();
+  return value ? value : undefined;
+};
@@ -4,6 +4,11 @@
  */
 
 import jsPDF from 'jspdf';
+import { formatPageNumbers } from './pdfParser';
+import type { DocumentTable, PageUnit } from './documentStructure';
+import type { QuizMedia } from './modelClient';
+import { hasMath } from './math';
+import { renderMathToImage } from './mathRender';
 
 export interface ExportOptions {
   format: 'txt' | 'pdf';
@@ -26,8 +31,19 @@ export interface QuizQuestion {
   explanation?: string;
   difficulty?: 'easy' | 'medium' | 'hard';
   topic?: string;
+  pageNumbers?: number[];
+  pageUnit?: PageUnit;
+  sourceId?: string;
+  sourceName?: string;
+  table?: DocumentTable;
+  media?: QuizMedia;
 }
 
+// jsPDF measures in millimetres and points; formulas are laid out in CSS pixels
+const PX_PER_MM = 96 / 25.4;
+const PX_PER_PT = 96 / 72;
+const MAX_FIGURE_HEIGHT = 100; // Millimetres
+
 /**
  * Exports quiz questions to the specified format
  */
@@ -66,8 +82,18 @@ const exportToTXT = (
   content += `Generated on: ${new Date().toLocaleDateString()}\n`;
   content += `Total Questions: ${questions.length}\n\n`;
 
+  // Plain text cannot typeset formulas, so they stay as their LaTeX source
   questions.forEach((question, index) => {
     content += `${index + 1}. ${question.question}\n`;
+
+    // Images cannot go into plain text, so the figure is only referenced
+    if (question.media) {
+      content += `\n   [${question.media.caption || question.media.alt}]\n\n`;
+    }
+
+    if (question.table) {
+      content += `\n${formatTableText(question.table)}\n\n`;
+    }
     
     if (question.type === 'mcq' && question.options) {
       question.options.forEach((option, optIndex) => {
@@ -98,6 +124,11 @@ const exportToTXT = (
       content += `   Topic: ${question.topic}\n`;
     }
 
+    const sourceCitation = formatSourceCitation(question);
+    if (sourceCitation) {
+      content += `   Source: ${sourceCitation}\n`;
+    }
+
     content += '\n' + '-'.repeat(80) + '\n\n';
   });
 
@@ -166,6 +197,95 @@ const exportToPDF = async (
     });
   };
 
+  // Helper function to add text containing formulas as a typeset image,
+  // falling back to the LaTeX source when the formulas cannot be rendered
+  const addTextWithMath = async (text: string, fontSize: number = 12, isBold: boolean = false) => {
+    if (!hasMath(text)) {
+      addWrappedText(text, fontSize, isBold);
+      return;
+    }
+
+    try {
+      const maxWidth = pageWidth - (2 * margin);
+      const image = await renderMathToImage(text, {
+        width: maxWidth * PX_PER_MM,
+        fontSize: fontSize * PX_PER_PT,
+        bold: isBold
+      });
+      const width = image.width / PX_PER_MM;
+      const height = image.height / PX_PER_MM;
+      // Text is drawn from its baseline, images from their top edge
+      const ascent = lineHeight * 0.7;
+
+      checkPageBreak(height);
+      pdf.addImage(image.dataUrl, 'PNG', margin, yPosition - ascent, width, height);
+      yPosition += height;
+    } catch (error) {
+      console.warn('Failed to typeset formulas for PDF export:', error);
+      addWrappedText(text, fontSize, isBold);
+    }
+  };
+
+  // Helper function to add a question's figure, scaled to fit the text width
+  const addMedia = (media: QuizMedia) => {
+    const maxWidth = pageWidth - (2 * margin);
+    const ascent = lineHeight * 0.7;
+
+    try {
+      const properties = pdf.getImageProperties(media.src);
+      const naturalWidth = (media.width ?? properties.width) / PX_PER_MM;
+      const naturalHeight = (media.height ?? properties.height) / PX_PER_MM;
+      const scale = Math.min(1, maxWidth / naturalWidth, MAX_FIGURE_HEIGHT / naturalHeight);
+      const width = naturalWidth * scale;
+      const height = naturalHeight * scale;
+
+      checkPageBreak(height);
+      pdf.addImage(media.src, properties.fileType, margin + (maxWidth - width) / 2, yPosition - ascent, width, height);
+      yPosition += height;
+    } catch (error) {
+      console.warn('Failed to add figure to PDF export:', error);
+      addWrappedText(`[${media.alt}]`, 10);
+      return;
+    }
+
+    if (media.caption) {
+      addWrappedText(media.caption, 9);
+    }
+  };
+
+  // Helper function to draw a table as a grid, one wrapped cell per column
+  const addTable = (table: DocumentTable) => {
+    const cellPadding = 2;
+    const cellLineHeight = 4.5;
+    const columnCount = Math.max(table.headers.length, ...table.rows.map(row => row.length));
+    const columnWidth = (pageWidth - (2 * margin)) / columnCount;
+
+    if (table.caption) {
+      pdf.setFont('helvetica', 'italic');
+      addWrappedText(table.caption, 9);
+    }
+
+    [table.headers, ...table.rows].forEach((row, rowIndex) => {
+      pdf.setFontSize(9);
+      pdf.setFont('helvetica', rowIndex === 0 ? 'bold' : 'normal');
+      const cells = Array.from({ length: columnCount }, (_, column) =>
+        pdf.splitTextToSize(row[column] ?? '', columnWidth - (2 * cellPadding)) as string[]
+      );
+      const rowHeight = Math.max(...cells.map(lines => lines.length)) * cellLineHeight + (2 * cellPadding);
+
+      checkPageBreak(rowHeight);
+      pdf.setDrawColor(200, 200, 200);
+      cells.forEach((lines, column) => {
+        const x = margin + column * columnWidth;
+        pdf.rect(x, yPosition, columnWidth, rowHeight);
+        lines.forEach((line, lineIndex) => {
+          pdf.text(line, x + cellPadding, yPosition + cellPadding + (lineIndex + 1) * cellLineHeight - 1);
+        });
+      });
+      yPosition += rowHeight;
+    });
+  };
+
   // Title page
   pdf.setFontSize(24);
   pdf.setFont('helvetica', 'bold');
@@ -192,20 +312,30 @@ const exportToPDF = async (
   yPosition += 15;
 
   // Questions
-  questions.forEach((question, index) => {
+  for (const [index, question] of questions.entries()) {
     checkPageBreak(30); // Ensure space for question header
 
     // Question number and text
-    addWrappedText(`${index + 1}. ${question.question}`, 14, true);
+    await addTextWithMath(`${index + 1}. ${question.question}`, 14, true);
     yPosition += 5;
 
+    if (question.media) {
+      addMedia(question.media);
+      yPosition += 5;
+    }
+
+    if (question.table) {
+      addTable(question.table);
+      yPosition += 5;
+    }
+
     // Options
     if (question.type === 'mcq' && question.options) {
-      question.options.forEach((option, optIndex) => {
+      for (const [optIndex, option] of question.options.entries()) {
         const letter = String.fromCharCode(65 + optIndex);
         const marker = includeAnswers && option === question.correct_answer ? ' ✓' : '';
-        addWrappedText(`   ${letter}) ${option}${marker}`, 11);
-      });
+        await addTextWithMath(`   ${letter}) ${option}${marker}`, 11);
+      }
     } else if (question.type === 'true_false') {
       const trueMarker = includeAnswers && question.correct_answer === true ? ' ✓' : '';
       const falseMarker = includeAnswers && question.correct_answer === false ? ' ✓' : '';
@@ -217,15 +347,16 @@ const exportToPDF = async (
 
     // Answer and explanation
     if (includeAnswers) {
-      addWrappedText(`Correct Answer: ${question.correct_answer}`, 10, true);
+      await addTextWithMath(`Correct Answer: ${question.correct_answer}`, 10, true);
     }
 
     if (includeExplanations && question.explanation) {
-      addWrappedText(`Explanation: ${question.explanation}`, 10);
+      await addTextWithMath(`Explanation: ${question.explanation}`, 10);
     }
 
     // Additional metadata
-    if (question.difficulty || question.topic) {
+    const sourceCitation = formatSourceCitation(question);
+    if (question.difficulty || question.topic || sourceCitation) {
       yPosition += 3;
       if (question.difficulty) {
         addWrappedText(`Difficulty: ${question.difficulty}`, 9);
@@ -233,6 +364,9 @@ const exportToPDF = async (
       if (question.topic) {
         addWrappedText(`Topic: ${question.topic}`, 9);
       }
+      if (sourceCitation) {
+        addWrappedText(`Source: ${sourceCitation}`, 9);
+      }
     }
 
     yPosition += 10;
@@ -244,7 +378,7 @@ const exportToPDF = async (
       pdf.line(margin, yPosition, pageWidth - margin, yPosition);
       yPosition += 15;
     }
-  });
+  }
 
   // Footer on each page
   const pageCount = pdf.getNumberOfPages();
@@ -264,6 +398,40 @@ const exportToPDF = async (
   pdf.save(`${sanitizeFilename(title)}.pdf`);
 };
 
+/**
+ * Formats where a question came from, e.g. "Week 3 Reading, Pages 4–6"
+ */
+const formatSourceCitation = (question: QuizQuestion): string | null => {
+  const parts: string[] = [];
+  if (question.sourceName) {
+    parts.push(question.sourceName);
+  }
+  if (question.pageNumbers && question.pageNumbers.length > 0) {
+    parts.push(formatPageNumbers(question.pageNumbers, question.pageUnit));
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+/**
+ * Renders a table as aligned plain-text columns
+ */
+const formatTableText = (table: DocumentTable): string => {
+  const rows = [table.headers, ...table.rows];
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.max(...rows.map(row => (row[column] ?? '').length))
+  );
+  const formatRow = (row: string[]) =>
+    '   | ' + widths.map((width, column) => (row[column] ?? '').padEnd(width)).join(' | ') + ' |';
+
+  const lines = [
+    formatRow(table.headers),
+    '   |' + widths.map(width => '-'.repeat(width + 2)).join('|') + '|',
+    ...table.rows.map(formatRow)
+  ];
+  return table.caption ? `   ${table.caption}\n${lines.join('\n')}` : lines.join('\n');
+};
+
 /**
  * Sanitizes filename for safe file system usage
  */
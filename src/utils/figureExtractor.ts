@@ -0,0 +1,317 @@
+/**
+ * Figure Extractor Utility
+ * Finds embedded images on a PDF page, pairs them with their captions and
+ * renders each one (with the labels drawn over it) to an image
+ */
+
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import { isFigureCaption, type DocumentFigure } from './documentStructure';
+import { expandLigatures } from './layoutRepair';
+
+export interface FigureRegion {
+  // Page coordinates at scale 1, origin at the top left
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  caption?: string;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Icons, bullets and rules are too small to be figures; full-page images are scans
+const MIN_FIGURE_SIDE_SHARE = 0.1;
+const MIN_FIGURE_AREA_SHARE = 0.02;
+const MAX_FIGURE_AREA_SHARE = 0.85;
+// Images closer than this (in points) belong to the same figure
+const FIGURE_MERGE_GAP = 6;
+// A caption must start within this share of the page height from its figure
+const MAX_CAPTION_DISTANCE_SHARE = 0.1;
+const MAX_CAPTION_LINES = 4;
+const MAX_CAPTION_LENGTH = 400;
+const FIGURE_RENDER_SCALE = 1.5;
+const MAX_FIGURE_SIDE = 900; // Pixels
+const FIGURE_JPEG_QUALITY = 0.85;
+
+/**
+ * Finds the figures on a page from where its images are painted, merging
+ * images that sit together into one figure and attaching the nearest
+ * "Figure N" caption above or below each one
+ */
+export const findFigureRegions = async (page: PDFPageProxy, items: TextItem[]): Promise<FigureRegion[]> => {
+  const viewport = page.getViewport({ scale: 1 });
+  const pageArea = viewport.width * viewport.height;
+
+  const regions = mergeRegions(
+    (await findImageBoxes(page)).map(box => toViewportBox(viewport, box))
+  ).filter(region => {
+    const width = region.right - region.left;
+    const height = region.bottom - region.top;
+    const area = width * height;
+    return width >= viewport.width * MIN_FIGURE_SIDE_SHARE &&
+      height >= viewport.height * MIN_FIGURE_SIDE_SHARE &&
+      area >= pageArea * MIN_FIGURE_AREA_SHARE &&
+      area <= pageArea * MAX_FIGURE_AREA_SHARE;
+  });
+
+  const captions = findCaptions(viewport, items);
+  const maxDistance = viewport.height * MAX_CAPTION_DISTANCE_SHARE;
+
+  for (const caption of captions) {
+    let best: FigureRegion | null = null;
+    let bestDistance = maxDistance;
+    for (const region of regions) {
+      if (region.caption) continue;
+      const distance = caption.top >= region.bottom - 1
+        ? caption.top - region.bottom
+        : region.top - caption.bottom;
+      if (distance >= -1 && distance <= bestDistance) {
+        best = region;
+        bestDistance = distance;
+      }
+    }
+    if (best) best.caption = caption.text;
+  }
+
+  return regions.sort((a, b) => a.top - b.top || a.left - b.left);
+};
+
+/**
+ * Renders a page once and crops out each figure as a JPEG data URL
+ */
+export const renderFigures = async (
+  page: PDFPageProxy,
+  regions: FigureRegion[],
+  pageNumber: number
+): Promise<DocumentFigure[]> => {
+  if (regions.length === 0) return [];
+
+  const viewport = page.getViewport({ scale: FIGURE_RENDER_SCALE });
+  const pageCanvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  const context = pageCanvas.getContext('2d') as CanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  const figures: DocumentFigure[] = [];
+  for (const region of regions) {
+    const sourceX = Math.max(0, Math.floor(region.left * FIGURE_RENDER_SCALE));
+    const sourceY = Math.max(0, Math.floor(region.top * FIGURE_RENDER_SCALE));
+    const sourceWidth = Math.min(pageCanvas.width, Math.ceil(region.right * FIGURE_RENDER_SCALE)) - sourceX;
+    const sourceHeight = Math.min(pageCanvas.height, Math.ceil(region.bottom * FIGURE_RENDER_SCALE)) - sourceY;
+    if (sourceWidth <= 0 || sourceHeight <= 0) continue;
+
+    const fit = Math.min(1, MAX_FIGURE_SIDE / Math.max(sourceWidth, sourceHeight));
+    const width = Math.round(sourceWidth * fit);
+    const height = Math.round(sourceHeight * fit);
+    const canvas = createCanvas(width, height);
+    const cropContext = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+    if (!cropContext) continue;
+
+    // JPEG has no transparency, so transparent images would turn black
+    cropContext.fillStyle = '#ffffff';
+    cropContext.fillRect(0, 0, width, height);
+    cropContext.drawImage(pageCanvas, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, width, height);
+
+    figures.push({
+      id: `figure-${pageNumber}-${figures.length + 1}`,
+      pageNumber,
+      caption: region.caption,
+      image: await toDataUrl(canvas),
+      width,
+      height
+    });
+  }
+
+  return figures;
+};
+
+/**
+ * Walks the page's drawing operators, tracking the transformation matrix, and
+ * returns the box each image is painted into in PDF user space
+ */
+const findImageBoxes = async (page: PDFPageProxy): Promise<[number, number, number, number][]> => {
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const { OPS, Util } = pdfjsLib;
+  const stack: Matrix[] = [];
+  let matrix: Matrix = IDENTITY;
+  const boxes: [number, number, number, number][] = [];
+
+  fnArray.forEach((fn, index) => {
+    const args = argsArray[index];
+    switch (fn) {
+      case OPS.save:
+        stack.push(matrix);
+        break;
+      case OPS.restore:
+        matrix = stack.pop() ?? IDENTITY;
+        break;
+      case OPS.transform:
+        matrix = Util.transform(matrix, args) as Matrix;
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(matrix);
+        if (Array.isArray(args?.[0]) && args[0].length === 6) {
+          matrix = Util.transform(matrix, args[0]) as Matrix;
+        }
+        break;
+      case OPS.paintFormXObjectEnd:
+        matrix = stack.pop() ?? IDENTITY;
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject: {
+        // Images are painted into the unit square of the current matrix
+        const corners = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([x, y]) => Util.applyTransform([x, y], matrix));
+        const xs = corners.map(([x]) => x);
+        const ys = corners.map(([, y]) => y);
+        boxes.push([Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]);
+        break;
+      }
+    }
+  });
+
+  return boxes;
+};
+
+/**
+ * Converts a box in PDF user space to page coordinates with the origin at the top left
+ */
+const toViewportBox = (
+  viewport: ReturnType<PDFPageProxy['getViewport']>,
+  box: [number, number, number, number]
+): FigureRegion => {
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(box);
+  return {
+    left: Math.max(0, Math.min(x1, x2)),
+    top: Math.max(0, Math.min(y1, y2)),
+    right: Math.min(viewport.width, Math.max(x1, x2)),
+    bottom: Math.min(viewport.height, Math.max(y1, y2))
+  };
+};
+
+/**
+ * Merges overlapping or touching boxes until none are left to merge
+ */
+const mergeRegions = (regions: FigureRegion[]): FigureRegion[] => {
+  const merged = [...regions];
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < merged.length && !changed; i++) {
+      for (let j = i + 1; j < merged.length; j++) {
+        const a = merged[i];
+        const b = merged[j];
+        const touches = a.left <= b.right + FIGURE_MERGE_GAP && b.left <= a.right + FIGURE_MERGE_GAP &&
+          a.top <= b.bottom + FIGURE_MERGE_GAP && b.top <= a.bottom + FIGURE_MERGE_GAP;
+        if (touches) {
+          merged[i] = {
+            left: Math.min(a.left, b.left),
+            top: Math.min(a.top, b.top),
+            right: Math.max(a.right, b.right),
+            bottom: Math.max(a.bottom, b.bottom)
+          };
+          merged.splice(j, 1);
+          changed = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Finds "Figure N" lines on the page and reads each caption to the end of its paragraph
+ */
+const findCaptions = (
+  viewport: ReturnType<PDFPageProxy['getViewport']>,
+  items: TextItem[]
+): { text: string; top: number; bottom: number }[] => {
+  const lines = groupLines(viewport, items);
+  const captions: { text: string; top: number; bottom: number }[] = [];
+
+  lines.forEach((line, index) => {
+    if (!isFigureCaption(line.text)) return;
+
+    let text = line.text;
+    let bottom = line.bottom;
+    for (let next = index + 1; next < lines.length && next < index + MAX_CAPTION_LINES; next++) {
+      const candidate = lines[next];
+      const gap = candidate.top - bottom;
+      if (gap > line.height * 0.8 || isFigureCaption(candidate.text) || text.length > MAX_CAPTION_LENGTH) break;
+      text = text.endsWith('-') ? `${text.slice(0, -1)}${candidate.text}` : `${text} ${candidate.text}`;
+      bottom = candidate.bottom;
+    }
+
+    captions.push({ text: expandLigatures(text), top: line.top, bottom });
+  });
+
+  return captions;
+};
+
+/**
+ * Groups text items into lines in page coordinates, top to bottom
+ */
+const groupLines = (
+  viewport: ReturnType<PDFPageProxy['getViewport']>,
+  items: TextItem[]
+): { text: string; top: number; bottom: number; height: number }[] => {
+  const positioned = items
+    .filter(item => typeof item.str === 'string' && item.str.trim() && Array.isArray(item.transform))
+    .map(item => {
+      const [x, baseline] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+      const height = Math.abs(item.height || item.transform[3]) || 10;
+      return { text: item.str.trim(), x, baseline, height };
+    })
+    .sort((a, b) => a.baseline - b.baseline || a.x - b.x);
+
+  const lines: { parts: typeof positioned; baseline: number; height: number }[] = [];
+  positioned.forEach(item => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.baseline - item.baseline) <= Math.max(line.height, item.height) * 0.5) {
+      line.parts.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ parts: [item], baseline: item.baseline, height: item.height });
+    }
+  });
+
+  return lines.map(line => ({
+    text: line.parts.sort((a, b) => a.x - b.x).map(part => part.text).join(' '),
+    top: line.baseline - line.height,
+    bottom: line.baseline,
+    height: line.height
+  }));
+};
+
+/**
+ * Creates an offscreen canvas in workers, or a DOM canvas on the main thread
+ */
+const createCanvas = (width: number, height: number): OffscreenCanvas | HTMLCanvasElement => {
+  return typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+};
+
+/**
+ * Encodes a canvas as a JPEG data URL
+ */
+const toDataUrl = async (canvas: OffscreenCanvas | HTMLCanvasElement): Promise<string> => {
+  if (!('convertToBlob' in canvas)) {
+    return canvas.toDataURL('image/jpeg', FIGURE_JPEG_QUALITY);
+  }
+
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: FIGURE_JPEG_QUALITY });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
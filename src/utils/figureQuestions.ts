@@ -0,0 +1,195 @@
+/**
+ * Figure Questions Utility
+ * Builds questions that show a document's figures and ask about their labels or captions
+ */
+
+import type { DocumentFigure, PageUnit } from './documentStructure';
+import type { QuizMedia, QuizQuestion } from './modelClient';
+import { shuffle } from './tableQuestions';
+import { createQuestionId } from './hash';
+
+export interface QuizFigureSource extends DocumentFigure {
+  sourceId?: string; // Set when figures from several documents are combined
+  sourceName?: string;
+  pageUnit?: PageUnit;
+}
+
+export interface CaptionLabel {
+  label: string;
+  description: string;
+}
+
+const FIGURE_NUMBER_PATTERN = /^((?:figure|fig\.)\s*\d+[a-z]?)[.:]?\s*/i;
+// "(A) nucleus" or "A: nucleus"
+const LABEL_MARKER_PATTERN = /(?:^|[\s;,.])(?:\(([A-Za-z])\)|([A-Z])\s*[:=])\s*/g;
+const MAX_LABEL_DESCRIPTION_LENGTH = 80;
+
+/**
+ * Generates up to `count` questions about captioned figures. Each question
+ * carries its figure as media, shown without the caption that holds the answer.
+ */
+export const generateFigureQuestions = (
+  figures: QuizFigureSource[],
+  count: number,
+  questionTypes: ('mcq' | 'true_false')[],
+  includeExplanations: boolean
+): QuizQuestion[] => {
+  const captioned = figures.filter(figure => getCaptionSummary(figure));
+  const candidates = captioned.flatMap(figure => [
+    ...buildLabelQuestions(figure, questionTypes),
+    ...buildCaptionQuestions(figure, captioned, questionTypes)
+  ]);
+
+  return shuffle(candidates)
+    .slice(0, count)
+    .map(question => ({
+      ...question,
+      id: createQuestionId(question),
+      explanation: includeExplanations ? question.explanation : undefined
+    }));
+};
+
+/**
+ * Reads the labels a caption explains, e.g. "(A) nucleus; (B) mitochondrion".
+ * Returns nothing unless at least two distinct labels are found.
+ */
+export const parseCaptionLabels = (caption: string): CaptionLabel[] => {
+  const markers = [...caption.matchAll(LABEL_MARKER_PATTERN)];
+  const labels: CaptionLabel[] = [];
+
+  markers.forEach((marker, index) => {
+    const start = (marker.index ?? 0) + marker[0].length;
+    const end = markers[index + 1]?.index ?? caption.length;
+    const description = caption
+      .slice(start, end)
+      .replace(/^[\s,;:–-]+|[\s,;.]+$/g, '')
+      .replace(/[,;]?\s+and$/i, '')
+      .trim();
+    const label = marker[1] ?? marker[2];
+
+    if (description && description.length <= MAX_LABEL_DESCRIPTION_LENGTH &&
+      !labels.some(existing => existing.label === label)) {
+      labels.push({ label, description });
+    }
+  });
+
+  return labels.length >= 2 ? labels : [];
+};
+
+/**
+ * Builds "what does label B indicate?" questions from a caption's label list
+ */
+const buildLabelQuestions = (
+  figure: QuizFigureSource,
+  questionTypes: ('mcq' | 'true_false')[]
+): Omit<QuizQuestion, 'id'>[] => {
+  const labels = parseCaptionLabels(figure.caption ?? '');
+  if (labels.length === 0) return [];
+
+  const base = buildBase(figure);
+  const target = labels[Math.floor(Math.random() * labels.length)];
+  const others = labels.filter(entry => entry !== target);
+  const explanation = `The figure is captioned: ${figure.caption}`;
+  const questions: Omit<QuizQuestion, 'id'>[] = [];
+
+  if (questionTypes.includes('mcq') && others.length >= 2) {
+    questions.push({
+      ...base,
+      type: 'mcq',
+      question: `In the figure, what does label ${target.label} indicate?`,
+      options: shuffle([target, ...shuffle(others).slice(0, 3)].map(entry => entry.description)),
+      correct_answer: target.description,
+      explanation
+    });
+  }
+
+  if (questionTypes.includes('true_false')) {
+    const isTrue = Math.random() < 0.5;
+    const shown = isTrue ? target : others[Math.floor(Math.random() * others.length)];
+    questions.push({
+      ...base,
+      type: 'true_false',
+      question: `In the figure, label ${target.label} indicates ${shown.description}.`,
+      correct_answer: isTrue,
+      explanation: `${isTrue ? 'True' : 'False'}. ${explanation}`
+    });
+  }
+
+  return questions;
+};
+
+/**
+ * Builds questions that ask which caption describes the figure shown
+ */
+const buildCaptionQuestions = (
+  figure: QuizFigureSource,
+  captioned: QuizFigureSource[],
+  questionTypes: ('mcq' | 'true_false')[]
+): Omit<QuizQuestion, 'id'>[] => {
+  const summary = getCaptionSummary(figure);
+  const otherSummaries = [...new Set(captioned.map(getCaptionSummary))].filter(other => other !== summary);
+  if (otherSummaries.length === 0) return [];
+
+  const base = buildBase(figure);
+  const questions: Omit<QuizQuestion, 'id'>[] = [];
+
+  if (questionTypes.includes('mcq') && otherSummaries.length >= 2) {
+    questions.push({
+      ...base,
+      type: 'mcq',
+      question: 'Which description matches the figure shown?',
+      options: shuffle([summary, ...shuffle(otherSummaries).slice(0, 3)]),
+      correct_answer: summary,
+      explanation: `The figure is captioned: ${figure.caption}`
+    });
+  }
+
+  if (questionTypes.includes('true_false')) {
+    const isTrue = Math.random() < 0.5;
+    const shown = isTrue ? summary : otherSummaries[Math.floor(Math.random() * otherSummaries.length)];
+    questions.push({
+      ...base,
+      type: 'true_false',
+      question: `The figure shown depicts: ${shown}`,
+      correct_answer: isTrue,
+      explanation: `${isTrue ? 'True' : 'False'}. The figure is captioned: ${figure.caption}`
+    });
+  }
+
+  return questions;
+};
+
+/**
+ * Fields shared by every question about a figure, including the figure itself
+ */
+const buildBase = (figure: QuizFigureSource) => {
+  const number = FIGURE_NUMBER_PATTERN.exec(figure.caption ?? '')?.[1];
+  const media: QuizMedia = {
+    type: 'image',
+    src: figure.image,
+    alt: number ? `${number} from the document` : 'Figure from the document',
+    // Only the figure number: the rest of the caption gives the answer away
+    caption: number,
+    width: figure.width,
+    height: figure.height
+  };
+
+  return {
+    difficulty: 'medium' as const,
+    topic: number || 'Figures',
+    media,
+    pageNumbers: [figure.pageNumber],
+    pageUnit: figure.pageUnit,
+    sourceId: figure.sourceId,
+    sourceName: figure.sourceName
+  };
+};
+
+/**
+ * The descriptive part of a caption, without its number or label list
+ */
+const getCaptionSummary = (figure: DocumentFigure): string => {
+  const caption = (figure.caption ?? '').replace(FIGURE_NUMBER_PATTERN, '');
+  const labelStart = caption.search(/\s\(?[A-Za-z]\)\s|\s[A-Z]\s*[:=]\s/);
+  return (labelStart > 0 ? caption.slice(0, labelStart) : caption).replace(/[\s.:;,]+$/, '').trim();
+};
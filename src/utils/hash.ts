@@ -0,0 +1,44 @@
+/**
+ * Hash Utility
+ * Derives stable, content-addressed IDs so the same document and questions get
+ * the same IDs on every parse and reload
+ */
+
+import type { QuizQuestion } from './modelClient';
+
+/**
+ * Hashes strings to a 53-bit base-36 string (cyrb53). Not cryptographic, but
+ * collisions are unlikely at the scale of a document's chunks and questions.
+ */
+export const hashString = (...parts: string[]): string => {
+  // Joined with a separator so ("ab", "c") and ("a", "bc") differ
+  const text = parts.join('\u001f');
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Builds a question's ID from its source and what it asks, so a question keeps
+ * its ID however its options are shuffled
+ */
+export const createQuestionId = (question: Omit<QuizQuestion, 'id'>): string => {
+  return `q_${hashString(
+    question.sourceId ?? '',
+    question.type,
+    question.question,
+    String(question.correct_answer),
+    question.table?.id ?? '',
+    question.media?.src ?? ''
+  )}`;
+};
@@ -0,0 +1,200 @@
+/**
+ * HTML Parser Utility
+ * Converts (X)HTML content into structured document blocks
+ */
+
+import { DOMImplementation } from '@xmldom/xmldom';
+import { parse, type DefaultTreeAdapterMap } from 'parse5';
+import { childElements } from './zipXml';
+import { buildPageModel, type ParsedPDF } from './pdfParser';
+import { countWords } from './language';
+import { renderBlocksByPage, tablesFromBlocks, type DocumentBlock } from './documentStructure';
+import { mathmlToLatex, wrapMath } from './math';
+
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'nav', 'noscript', 'template', 'svg']);
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'aside', 'header', 'footer', 'main', 'blockquote',
+  'pre', 'figure', 'figcaption', 'dl', 'dt', 'dd', 'body', 'hr'
+]);
+
+/**
+ * Parses an HTML file into the same shape as a parsed PDF
+ */
+export const parseHTML = async (file: File): Promise<ParsedPDF> => {
+  const doc = parseHtmlDocument(await file.text());
+  const root = doc.getElementsByTagName('body')[0] || doc.documentElement;
+  const blocks = root ? elementToBlocks(root, 1) : [];
+  const { text, pages } = buildPageModel(renderBlocksByPage(blocks));
+  const title = doc.getElementsByTagName('title')[0]?.textContent?.trim();
+  const language = doc.documentElement?.getAttribute('lang') || undefined;
+
+  return {
+    text,
+    pages: pages.length,
+    pageTexts: pages,
+    wordCount: countWords(text),
+    format: 'html',
+    blocks,
+    tables: tablesFromBlocks(blocks),
+    metadata: {
+      title: title || file.name.replace(/\.html?$/i, ''),
+      language
+    }
+  };
+};
+
+/**
+ * Parses HTML with the HTML5 algorithm, so end tags authors may leave out
+ * (</p>, </li>, </td>, </tr> and the like) are implied as a browser would,
+ * and copies the result into a DOM document that works in any thread
+ */
+const parseHtmlDocument = (html: string): Document => {
+  const doc = new DOMImplementation().createDocument(null, 'html', null);
+  const root = doc.documentElement;
+  const htmlElement = parse(html).childNodes.find(
+    (node): node is DefaultTreeAdapterMap['element'] => node.nodeName === 'html'
+  );
+
+  htmlElement?.attrs.forEach(attr => root.setAttribute(attr.name, attr.value));
+  htmlElement?.childNodes.forEach(child => appendHtmlNode(doc, root, child));
+  return doc;
+};
+
+/**
+ * Copies a parsed HTML node and its children under a DOM parent, dropping comments
+ */
+const appendHtmlNode = (doc: Document, parent: Element, node: DefaultTreeAdapterMap['childNode']): void => {
+  if (node.nodeName === '#text') {
+    parent.appendChild(doc.createTextNode((node as DefaultTreeAdapterMap['textNode']).value));
+    return;
+  }
+  if (!('tagName' in node)) return;
+
+  const element = doc.createElementNS(node.namespaceURI, node.tagName);
+  node.attrs.forEach(attr => element.setAttribute(attr.prefix ? `${attr.prefix}:${attr.name}` : attr.name, attr.value));
+  node.childNodes.forEach(child => appendHtmlNode(doc, element, child));
+  parent.appendChild(element);
+};
+
+/**
+ * Walks an element tree and collects headings, paragraphs, list items and tables
+ */
+export const elementToBlocks = (root: Element, pageNumber: number): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  let pendingText = '';
+
+  const flushParagraph = () => {
+    const text = normalizeInlineText(pendingText);
+    if (text.length > 0) {
+      blocks.push({ type: 'paragraph', text, pageNumber });
+    }
+    pendingText = '';
+  };
+
+  const walk = (node: Element, listDepth: number, ordered: boolean) => {
+    Array.from(node.childNodes).forEach(child => {
+      if (child.nodeType === 3) {
+        pendingText += child.nodeValue || '';
+        return;
+      }
+      if (child.nodeType !== 1) return;
+
+      const element = child as Element;
+      const tag = (element.localName || element.nodeName).toLowerCase();
+
+      if (tag === 'math') {
+        pendingText += mathmlToLatex(element);
+        return;
+      }
+      // MathJax 2 keeps the TeX source in script tags
+      const scriptType = tag === 'script' ? element.getAttribute('type') || '' : '';
+      if (/^math\/tex/i.test(scriptType)) {
+        pendingText += wrapMath(element.textContent || '', /mode=display/i.test(scriptType));
+        return;
+      }
+      // KaTeX output repeats each formula as visual markup next to its MathML
+      if (SKIPPED_ELEMENTS.has(tag) || /\bkatex-html\b/.test(element.getAttribute('class') || '')) return;
+
+      const headingMatch = tag.match(/^h([1-6])$/);
+      if (headingMatch) {
+        flushParagraph();
+        const text = normalizeInlineText(element.textContent || '');
+        if (text) blocks.push({ type: 'heading', level: Number(headingMatch[1]), text, pageNumber });
+      } else if (tag === 'ul' || tag === 'ol') {
+        flushParagraph();
+        walk(element, listDepth + 1, tag === 'ol');
+      } else if (tag === 'li') {
+        flushParagraph();
+        const { ownText, nested } = splitListItem(element);
+        const text = normalizeInlineText(ownText);
+        if (text) {
+          blocks.push({ type: 'list_item', level: Math.max(0, listDepth - 1), ordered, text, pageNumber });
+        }
+        nested.forEach(list => walk(list, listDepth + 1, (list.localName || list.nodeName).toLowerCase() === 'ol'));
+      } else if (tag === 'table') {
+        flushParagraph();
+        const rows = readTableRows(element);
+        if (rows.length > 0) blocks.push({ type: 'table', rows, pageNumber });
+      } else if (tag === 'br') {
+        pendingText += '\n';
+      } else if (BLOCK_ELEMENTS.has(tag)) {
+        flushParagraph();
+        walk(element, listDepth, ordered);
+        flushParagraph();
+      } else {
+        walk(element, listDepth, ordered);
+      }
+    });
+  };
+
+  walk(root, 0, false);
+  flushParagraph();
+  return blocks;
+};
+
+/**
+ * Separates a list item's own text from the lists nested inside it
+ */
+const splitListItem = (item: Element): { ownText: string; nested: Element[] } => {
+  let ownText = '';
+  const nested: Element[] = [];
+
+  Array.from(item.childNodes).forEach(child => {
+    const tag = child.nodeType === 1 ? ((child as Element).localName || child.nodeName).toLowerCase() : '';
+    if (tag === 'ul' || tag === 'ol') {
+      nested.push(child as Element);
+    } else {
+      ownText += ' ' + (child.textContent || '');
+    }
+  });
+
+  return { ownText, nested };
+};
+
+/**
+ * Reads a table element as rows of cell text
+ */
+const readTableRows = (table: Element): string[][] => {
+  const rows: string[][] = [];
+
+  const collectRows = (node: Element) => {
+    childElements(node).forEach(child => {
+      const tag = (child.localName || child.nodeName).toLowerCase();
+      if (tag === 'tr') {
+        const cells = childElements(child)
+          .filter(cell => ['td', 'th'].includes((cell.localName || cell.nodeName).toLowerCase()))
+          .map(cell => normalizeInlineText(cell.textContent || ''));
+        if (cells.some(cell => cell.length > 0)) rows.push(cells);
+      } else if (tag === 'thead' || tag === 'tbody' || tag === 'tfoot') {
+        collectRows(child);
+      }
+    });
+  };
+
+  collectRows(table);
+  return rows;
+};
+
+const normalizeInlineText = (text: string): string => {
+  return text.replace(/\s+/g, ' ').trim();
+};
@@ -0,0 +1,228 @@
+/**
+ * Language Utility
+ * Detects the language of a document and segments its text into words and
+ * sentences for that locale, including scripts written without spaces
+ */
+
+type Granularity = 'word' | 'sentence';
+
+// Only the start of a long document is needed to tell its language
+const DETECTION_SAMPLE_LENGTH = 20000;
+// Share of a Latin-script sample's words that must be the winning language's stopwords
+const MIN_STOPWORD_SHARE = 0.05;
+const MIN_LEAD_OVER_RUNNER_UP = 1.25;
+const DEFAULT_WORDS_PER_MINUTE = 200;
+
+// Checked in order: Japanese mixes kana with Han characters, so kana decides first
+const SCRIPT_LANGUAGES: { pattern: RegExp; language: string }[] = [
+  { pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u, language: 'ja' },
+  { pattern: /\p{Script=Hangul}/u, language: 'ko' },
+  { pattern: /\p{Script=Han}/u, language: 'zh' },
+  { pattern: /\p{Script=Thai}/u, language: 'th' },
+  { pattern: /\p{Script=Lao}/u, language: 'lo' },
+  { pattern: /\p{Script=Khmer}/u, language: 'km' },
+  { pattern: /\p{Script=Myanmar}/u, language: 'my' },
+  { pattern: /\p{Script=Arabic}/u, language: 'ar' },
+  { pattern: /\p{Script=Hebrew}/u, language: 'he' },
+  { pattern: /\p{Script=Greek}/u, language: 'el' },
+  { pattern: /\p{Script=Devanagari}/u, language: 'hi' },
+  { pattern: /\p{Script=Bengali}/u, language: 'bn' },
+  { pattern: /\p{Script=Tamil}/u, language: 'ta' },
+  { pattern: /\p{Script=Georgian}/u, language: 'ka' },
+  { pattern: /\p{Script=Armenian}/u, language: 'hy' },
+  { pattern: /\p{Script=Cyrillic}/u, language: 'ru' }
+];
+
+// The most frequent function words of each language written in Latin script
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'for', 'with', 'as', 'are', 'this', 'be', 'was'],
+  es: ['el', 'la', 'que', 'de', 'y', 'los', 'las', 'del', 'se', 'por', 'con', 'una', 'para', 'es', 'como'],
+  fr: ['le', 'la', 'les', 'des', 'et', 'est', 'du', 'un', 'une', 'que', 'pour', 'dans', 'pas', 'qui', 'sur'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'den', 'mit', 'sich', 'des', 'auf', 'ein', 'eine', 'zu', 'dem'],
+  it: ['il', 'di', 'che', 'è', 'per', 'non', 'una', 'sono', 'gli', 'della', 'del', 'le', 'con', 'nel', 'anche'],
+  pt: ['que', 'não', 'o', 'os', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'é', 'dos', 'das', 'mais'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'niet', 'op', 'te', 'zijn', 'voor', 'met', 'die', 'ook'],
+  sv: ['och', 'att', 'det', 'som', 'en', 'är', 'på', 'för', 'av', 'med', 'inte', 'den', 'till', 'har', 'om'],
+  pl: ['i', 'w', 'nie', 'na', 'się', 'z', 'że', 'do', 'jest', 'to', 'jak', 'od', 'po', 'przez', 'oraz'],
+  tr: ['ve', 'bir', 'bu', 'da', 'için', 'ile', 'olarak', 'çok', 'daha', 'gibi', 'ne', 'olan', 'kadar', 'değil'],
+  id: ['yang', 'dan', 'di', 'dengan', 'untuk', 'ini', 'itu', 'dari', 'dalam', 'tidak', 'adalah', 'akan', 'pada']
+};
+
+// Silent reading speeds from Trauzettel-Klosinski & Dietz (2012), rounded
+const WORDS_PER_MINUTE: Record<string, number> = {
+  en: 230, es: 220, fr: 195, de: 180, it: 190, pt: 180, nl: 200, sv: 200, pl: 165, tr: 165,
+  ru: 185, ar: 140, he: 185, ja: 195, zh: 160
+};
+
+// Abbreviations whose period does not end a sentence ("e.g.", "Dr.", "Fig. 3", initials)
+const ABBREVIATION_PATTERN = /(?:^|[\s(])(?:[A-Z]|e\.g|i\.e|vs|cf|al|approx|Dr|Mr|Mrs|Ms|Prof|Sr|Jr|St|Fig|Figs|Eq|Eqs|No|Vol|pp|Ch|Sec|z\.B|d\.h|bzw|usw)\.$/;
+// Used where Intl.Segmenter is missing: Western terminators need a following space, CJK ones do not
+const FALLBACK_SENTENCE_END = /[.!?]+["'”’)\]]*(?:\s+|$)|[。！？]+["'”’」』)\]]*\s*/g;
+
+const segmenters = new Map<string, Intl.Segmenter | null>();
+
+/**
+ * Detects a text's language as a BCP 47 code such as "en" or "ja".
+ * Scripts used by one language decide it outright; Latin-script text is
+ * matched against common function words. The declared language (from the
+ * document's metadata) is used when the text alone is inconclusive.
+ */
+export const detectLanguage = (text: string, declared?: string): string | undefined => {
+  const sample = text.slice(0, DETECTION_SAMPLE_LENGTH);
+  const letters = sample.match(/\p{L}/gu) ?? [];
+  if (letters.length === 0) {
+    return normalizeLanguageTag(declared);
+  }
+
+  const latinCount = letters.filter(letter => /\p{Script=Latin}/u.test(letter)).length;
+  if (latinCount < letters.length / 2) {
+    const counts = SCRIPT_LANGUAGES.map(({ pattern, language }) => ({
+      language,
+      count: letters.filter(letter => pattern.test(letter)).length
+    }));
+    const kana = counts.find(entry => entry.language === 'ja')?.count ?? 0;
+    // A little kana among Han characters already marks Japanese
+    if (kana > 0 && kana >= letters.length * 0.05) return 'ja';
+
+    const dominant = counts.reduce((best, entry) => (entry.count > best.count ? entry : best));
+    if (dominant.language === 'ru' && /[іїєґ]/i.test(sample)) return 'uk';
+    if (dominant.count > 0) return dominant.language;
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => {
+      const set = new Set(stopwords);
+      return { language, score: words.filter(word => set.has(word)).length };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score >= words.length * MIN_STOPWORD_SHARE && best.score >= runnerUp.score * MIN_LEAD_OVER_RUNNER_UP) {
+    return best.language;
+  }
+  return normalizeLanguageTag(declared);
+};
+
+/**
+ * Counts words, splitting scripts written without spaces by dictionary
+ */
+export const countWords = (text: string, language?: string): number => {
+  if (text.trim().length === 0) return 0;
+
+  const segmenter = getSegmenter('word', language);
+  if (!segmenter) {
+    return text.trim().split(/\s+/).length;
+  }
+
+  let count = 0;
+  for (const segment of segmenter.segment(text)) {
+    if (segment.isWordLike) count++;
+  }
+  return count;
+};
+
+/**
+ * Splits text into its words, dropping punctuation and spaces
+ */
+export const segmentWords = (text: string, language?: string): string[] => {
+  const segmenter = getSegmenter('word', language);
+  if (!segmenter) {
+    return text.match(/\S+/g) ?? [];
+  }
+  return [...segmenter.segment(text)].filter(segment => segment.isWordLike).map(segment => segment.segment);
+};
+
+/**
+ * Lowercase content words of a text. Very short Latin words are mostly function
+ * words, as are short all-hiragana words in Japanese (particles such as は or です).
+ */
+export const extractContentTerms = (text: string, language?: string): string[] => {
+  return segmentWords(text, language)
+    .map(word => word.toLowerCase())
+    .filter(word => /\p{L}/u.test(word) &&
+      (word.length > 3 || !/^\p{Script=Latin}+$/u.test(word)) &&
+      !/^\p{Script=Hiragana}{1,2}$/u.test(word));
+};
+
+/**
+ * Returns the offset just past the given number of words, or the text length
+ * when it has fewer words
+ */
+export const findWordLimitEnd = (text: string, wordLimit: number, language?: string): number => {
+  const segmenter = getSegmenter('word', language);
+  let count = 0;
+
+  if (!segmenter) {
+    for (const match of text.matchAll(/\S+/g)) {
+      if (++count === wordLimit) return (match.index ?? 0) + match[0].length;
+    }
+    return text.length;
+  }
+
+  for (const segment of segmenter.segment(text)) {
+    if (segment.isWordLike && ++count === wordLimit) {
+      return segment.index + segment.segment.length;
+    }
+  }
+  return text.length;
+};
+
+/**
+ * Returns the offsets at which sentences end (after any trailing space).
+ * Periods after common abbreviations and initials do not end a sentence.
+ */
+export const findSentenceEnds = (text: string, language?: string): number[] => {
+  const segmenter = getSegmenter('sentence', language);
+  const candidates = segmenter
+    ? [...segmenter.segment(text)].map(segment => segment.index + segment.segment.length)
+    : [...text.matchAll(FALLBACK_SENTENCE_END)].map(match => (match.index ?? 0) + match[0].length);
+
+  return candidates.filter(end => !ABBREVIATION_PATTERN.test(text.slice(Math.max(0, end - 12), end).trimEnd()));
+};
+
+/**
+ * Returns the typical silent reading speed for a language
+ */
+export const getWordsPerMinute = (language?: string): number => {
+  return WORDS_PER_MINUTE[normalizeLanguageTag(language) ?? ''] ?? DEFAULT_WORDS_PER_MINUTE;
+};
+
+/**
+ * Returns a language's English name, e.g. "Japanese" for "ja"
+ */
+export const getLanguageName = (language: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch (error) {
+    return language;
+  }
+};
+
+/**
+ * Reduces a language tag such as "en-US" or "de_DE" to its primary subtag
+ */
+const normalizeLanguageTag = (tag?: string): string | undefined => {
+  const primary = tag?.trim().split(/[-_]/)[0].toLowerCase();
+  return primary && /^[a-z]{2,3}$/.test(primary) ? primary : undefined;
+};
+
+/**
+ * Returns a cached Intl.Segmenter, or null where the browser has none
+ */
+const getSegmenter = (granularity: Granularity, language?: string): Intl.Segmenter | null => {
+  const key = `${granularity}:${language ?? ''}`;
+  if (!segmenters.has(key)) {
+    let segmenter: Intl.Segmenter | null = null;
+    if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+      try {
+        segmenter = new Intl.Segmenter(language, { granularity });
+      } catch (error) {
+        // Unknown locale tags fall back to the default locale
+        segmenter = new Intl.Segmenter(undefined, { granularity });
+      }
+    }
+    segmenters.set(key, segmenter);
+  }
+  return segmenters.get(key) ?? null;
+};
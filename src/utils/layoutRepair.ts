@@ -0,0 +1,239 @@
+/**
+ * Layout Repair Utility
+ * Restores reading order in multi-column pages and cleans up extraction artifacts
+ * (line-end hyphenation and ligature glyphs) before text is chunked
+ */
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+const LIGATURES: Record<string, string> = {
+  'ﬀ': 'ff',
+  'ﬁ': 'fi',
+  'ﬂ': 'fl',
+  'ﬃ': 'ffi',
+  'ﬄ': 'ffl',
+  'ﬅ': 'st',
+  'ﬆ': 'st'
+};
+
+const LIGATURE_PATTERN = new RegExp(`[${Object.keys(LIGATURES).join('')}]`, 'g');
+
+// Column gutters are searched for in the middle of a region, never at its margins
+const GUTTER_SEARCH_START = 0.25;
+const GUTTER_SEARCH_END = 0.75;
+const GUTTER_BINS = 200;
+const MIN_GUTTER_WIDTH = 0.01; // Share of the region width
+const MIN_COLUMN_SHARE = 0.2; // Share of a region's items each column must hold
+const MIN_ITEMS_FOR_COLUMNS = 20;
+// A vertical gap this many line heights tall between lines starts a new paragraph
+const PARAGRAPH_GAP = 1.8;
+
+/**
+ * Replaces ligature glyphs such as "ﬁ" with their letters
+ */
+export const expandLigatures = (text: string): string => {
+  return text.replace(LIGATURE_PATTERN, glyph => LIGATURES[glyph]);
+};
+
+/**
+ * Normalizes extracted page texts: expands ligatures, drops soft hyphens and
+ * rejoins words split across lines ("informa-\ntion" → "information").
+ * A hyphen is kept when the joined form appears hyphenated elsewhere in the
+ * document, so compounds like "well-known" survive.
+ */
+export const normalizePageTexts = (pageTexts: string[]): string[] => {
+  const expanded = pageTexts.map(text => expandLigatures(text).replace(/\u00AD\n?/g, ''));
+
+  const hyphenatedWords = new Set<string>();
+  expanded.forEach(text => {
+    for (const match of text.matchAll(/\p{L}+(?:-\p{L}+)+/gu)) {
+      hyphenatedWords.add(match[0].toLowerCase());
+    }
+  });
+
+  return expanded.map(text =>
+    text.replace(/(\p{L}+)-\n(\p{Ll}+)([^\S\n]*)/gu, (_match, head: string, tail: string) => {
+      const joined = hyphenatedWords.has(`${head}-${tail}`.toLowerCase()) ? `${head}-${tail}` : `${head}${tail}`;
+      // Move the word up and keep the line break, so later line-based passes still line up
+      return `${joined}\n`;
+    })
+  );
+};
+
+/**
+ * Rebuilds the reading order of a page's text items from their positions.
+ * Pages split into columns by an empty vertical gutter read column by column,
+ * with full-width lines (titles, wide figures' captions) kept between them.
+ * Single-column pages keep the order PDF.js reported.
+ */
+export const orderTextItems = (items: TextItem[], pageView: number[]): TextItem[] => {
+  const positioned = items.filter(isPositionedText);
+  const [left, , right] = pageView;
+
+  if (positioned.length < MIN_ITEMS_FOR_COLUMNS || findGutter(positioned, left, right) === null) {
+    return items;
+  }
+
+  // Vertical and rotated text has no place in the column flow, so it goes last
+  const unpositioned = items.filter(item => !positioned.includes(item) && item.str?.trim());
+  return [...orderRegion(positioned, left, right), ...markLineEnds(unpositioned.map(item => [item]))];
+};
+
+/**
+ * Orders the items of a horizontal region, splitting it at a gutter when there is one
+ */
+const orderRegion = (items: TextItem[], left: number, right: number): TextItem[] => {
+  const gutter = items.length >= MIN_ITEMS_FOR_COLUMNS ? findGutter(items, left, right) : null;
+  if (gutter === null) {
+    return sortIntoLines(items);
+  }
+
+  const spanning = items.filter(item => itemX(item) < gutter.start && itemX(item) + item.width > gutter.end);
+  const spanningLines = groupLines(spanning);
+  const leftItems: TextItem[] = [];
+  const rightItems: TextItem[] = [];
+
+  items.filter(item => !spanning.includes(item)).forEach(item => {
+    // Pieces of a full-width line that sit on one side of the gutter stay on that line
+    const line = spanningLines.find(candidate => isSameLine(candidate[0], item));
+    if (line) {
+      line.push(item);
+      line.sort((a, b) => itemX(a) - itemX(b));
+    } else {
+      (itemX(item) < gutter.start ? leftItems : rightItems).push(item);
+    }
+  });
+
+  // Full-width lines cut the page into bands; each band reads left column, then right
+  const ordered: TextItem[] = [];
+  let bandTop = Infinity;
+  [...spanningLines, null].forEach(line => {
+    const bandBottom = line ? itemY(line[0]) : -Infinity;
+    const inBand = (item: TextItem) => itemY(item) < bandTop && itemY(item) > bandBottom;
+    ordered.push(...orderRegion(leftItems.filter(inBand), left, gutter.start));
+    ordered.push(...orderRegion(rightItems.filter(inBand), gutter.end, right));
+    if (line) {
+      ordered.push(...markLineEnds([line]));
+      bandTop = bandBottom;
+    }
+  });
+
+  return ordered;
+};
+
+/**
+ * Finds the widest empty vertical strip in the middle of a region that leaves
+ * enough text on both sides to count as two columns
+ */
+const findGutter = (
+  items: TextItem[],
+  left: number,
+  right: number
+): { start: number; end: number } | null => {
+  const width = right - left;
+  if (width <= 0) return null;
+
+  const binWidth = width / GUTTER_BINS;
+  const coverage = new Array<number>(GUTTER_BINS).fill(0);
+  items.forEach(item => {
+    const first = Math.max(0, Math.floor((itemX(item) - left) / binWidth));
+    const last = Math.min(GUTTER_BINS - 1, Math.floor((itemX(item) + item.width - left) / binWidth));
+    for (let bin = first; bin <= last; bin++) {
+      coverage[bin]++;
+    }
+  });
+
+  // A few full-width lines may cross the gutter
+  const tolerance = Math.max(1, Math.floor(items.length * 0.05));
+  let best: { start: number; end: number } | null = null;
+  let runStart = -1;
+
+  for (let bin = Math.floor(GUTTER_BINS * GUTTER_SEARCH_START); bin <= GUTTER_BINS * GUTTER_SEARCH_END; bin++) {
+    const isEmpty = bin < GUTTER_BINS * GUTTER_SEARCH_END && coverage[bin] <= tolerance;
+    if (isEmpty && runStart === -1) {
+      runStart = bin;
+    } else if (!isEmpty && runStart !== -1) {
+      if (!best || bin - runStart > best.end - best.start) {
+        best = { start: runStart, end: bin };
+      }
+      runStart = -1;
+    }
+  }
+
+  if (!best || (best.end - best.start) / GUTTER_BINS < MIN_GUTTER_WIDTH) {
+    return null;
+  }
+
+  const gutter = { start: left + best.start * binWidth, end: left + best.end * binWidth };
+  const leftCount = items.filter(item => itemX(item) + item.width <= gutter.start).length;
+  const rightCount = items.filter(item => itemX(item) >= gutter.end).length;
+  const minCount = items.length * MIN_COLUMN_SHARE;
+
+  return leftCount >= minCount && rightCount >= minCount ? gutter : null;
+};
+
+/**
+ * Sorts items top to bottom into lines, left to right within each line,
+ * with a blank line wherever the vertical gap suggests a paragraph break
+ */
+const sortIntoLines = (items: TextItem[]): TextItem[] => {
+  const lines = groupLines(items);
+  return lines.flatMap((line, index) => {
+    const next = lines[index + 1];
+    const gap = next ? itemY(line[0]) - itemY(next[0]) : 0;
+    const items = markLineEnds([line]);
+    return gap > line[0].height * PARAGRAPH_GAP
+      ? [...items, { ...line[0], str: '', width: 0, hasEOL: true }]
+      : items;
+  });
+};
+
+/**
+ * Groups items whose baselines are within half a line height of each other
+ */
+const groupLines = (items: TextItem[]): TextItem[][] => {
+  const sorted = [...items].sort((a, b) => itemY(b) - itemY(a) || itemX(a) - itemX(b));
+  const lines: TextItem[][] = [];
+
+  sorted.forEach(item => {
+    const line = lines[lines.length - 1];
+    if (line && isSameLine(line[0], item)) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  });
+
+  return lines.map(line => line.sort((a, b) => itemX(a) - itemX(b)));
+};
+
+/**
+ * Checks whether two items' baselines are within half a line height of each other
+ */
+const isSameLine = (a: TextItem, b: TextItem): boolean => {
+  return Math.abs(itemY(a) - itemY(b)) <= Math.max(a.height, b.height) * 0.5;
+};
+
+/**
+ * Flattens lines back into items, ending each line with a line break
+ */
+const markLineEnds = (lines: TextItem[][]): TextItem[] => {
+  return lines.flatMap(line =>
+    line.map((item, index) => ({ ...item, hasEOL: index === line.length - 1 }))
+  );
+};
+
+/**
+ * Keeps horizontal, non-empty text items that have a usable position
+ */
+const isPositionedText = (item: TextItem): boolean => {
+  return typeof item.str === 'string' &&
+    item.str.trim().length > 0 &&
+    item.width > 0 &&
+    Array.isArray(item.transform) &&
+    item.transform[1] === 0 &&
+    item.transform[2] === 0;
+};
+
+const itemX = (item: TextItem): number => item.transform[4];
+const itemY = (item: TextItem): number => item.transform[5];
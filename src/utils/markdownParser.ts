@@ -0,0 +1,172 @@
+/**
+ * Markdown Parser Utility
+ * Converts Markdown into structured document blocks with inline syntax removed
+ */
+
+import { buildPageModel, type ParsedPDF } from './pdfParser';
+import { countWords } from './language';
+import { renderBlocksByPage, tablesFromBlocks, type DocumentBlock } from './documentStructure';
+import { splitMath } from './math';
+
+/**
+ * Parses a Markdown file into the same shape as a parsed PDF
+ */
+export const parseMarkdown = async (file: File): Promise<ParsedPDF> => {
+  const blocks = markdownToBlocks(await file.text());
+  const { text, pages } = buildPageModel(renderBlocksByPage(blocks));
+  const firstHeading = blocks.find(
+    (block): block is Extract<DocumentBlock, { type: 'heading' }> => block.type === 'heading'
+  );
+
+  return {
+    text,
+    pages: pages.length,
+    pageTexts: pages,
+    wordCount: countWords(text),
+    format: 'markdown',
+    blocks,
+    tables: tablesFromBlocks(blocks),
+    metadata: {
+      title: firstHeading?.text || file.name.replace(/\.(md|markdown)$/i, '')
+    }
+  };
+};
+
+/**
+ * Converts Markdown source into headings, paragraphs, list items and tables
+ */
+export const markdownToBlocks = (markdown: string): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let tableRows: string[][] = [];
+  let inCodeFence = false;
+  let codeLines: string[] = [];
+
+  const flushParagraph = () => {
+    const text = stripInline(paragraph.join(' '));
+    if (text.length > 0) blocks.push({ type: 'paragraph', text, pageNumber: 1 });
+    paragraph = [];
+  };
+
+  const flushTable = () => {
+    if (tableRows.length > 0) blocks.push({ type: 'table', rows: tableRows, pageNumber: 1 });
+    tableRows = [];
+  };
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      if (inCodeFence) {
+        const code = codeLines.join('\n').trim();
+        if (code.length > 0) blocks.push({ type: 'paragraph', text: code, pageNumber: 1 });
+        codeLines = [];
+      } else {
+        flushParagraph();
+        flushTable();
+      }
+      inCodeFence = !inCodeFence;
+      return;
+    }
+    if (inCodeFence) {
+      codeLines.push(line);
+      return;
+    }
+
+    // Setext headings: a line of === or --- under a paragraph line
+    const setext = line.match(/^\s*(=+|-+)\s*$/);
+    if (setext && paragraph.length === 1) {
+      const text = stripInline(paragraph[0]);
+      paragraph = [];
+      blocks.push({ type: 'heading', level: setext[1][0] === '=' ? 1 : 2, text, pageNumber: 1 });
+      return;
+    }
+
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      flushParagraph();
+      if (!/^\s*\|[\s:|-]+\|\s*$/.test(line)) {
+        tableRows.push(line.trim().replace(/^\||\|$/g, '').split('|').map(cell => stripInline(cell)));
+      }
+      return;
+    }
+    flushTable();
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, text: stripInline(heading[2]), pageNumber: 1 });
+      return;
+    }
+
+    const listItem = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+    if (listItem && !/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      blocks.push({
+        type: 'list_item',
+        level: Math.floor(listItem[1].replace(/\t/g, '    ').length / 2),
+        ordered: /\d/.test(listItem[2]),
+        text: stripInline(listItem[3]),
+        pageNumber: 1
+      });
+      return;
+    }
+
+    if (line.trim().length === 0 || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      return;
+    }
+
+    // Lazy continuation of the previous list item
+    const previous = blocks[blocks.length - 1];
+    if (paragraph.length === 0 && previous?.type === 'list_item' && /^\s+/.test(line) && index > 0 && lines[index - 1].trim()) {
+      previous.text = `${previous.text} ${stripInline(line)}`;
+      return;
+    }
+
+    paragraph.push(line.replace(/^\s*>\s?/, ''));
+  });
+
+  if (inCodeFence && codeLines.length > 0) {
+    blocks.push({ type: 'paragraph', text: codeLines.join('\n').trim(), pageNumber: 1 });
+  }
+  flushParagraph();
+  flushTable();
+
+  return blocks;
+};
+
+/**
+ * Removes inline Markdown syntax (emphasis, code, links, images, HTML tags).
+ * Formulas are set aside first, since "_" and "*" inside them are not emphasis.
+ */
+const stripInline = (text: string): string => {
+  // Code spans are kept verbatim, so emphasis and math markers inside them are left alone
+  const codeSpans: string[] = [];
+  const withoutCode = text.replace(/(`+)(.+?)\1(?!`)/g, (_match, _ticks: string, code: string) => {
+    codeSpans.push(code.trim());
+    return `\uE001${codeSpans.length - 1}\uE001`;
+  });
+
+  const formulas: string[] = [];
+  const withPlaceholders = splitMath(withoutCode)
+    .map(segment => {
+      if (segment.type === 'text') return segment.text;
+      formulas.push(segment.source);
+      return `\uE000${formulas.length - 1}\uE000`;
+    })
+    .join('');
+
+  return withPlaceholders
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\*(.+?)\*/g, '$1')
+    // CommonMark: underscores only emphasize at word boundaries, so my_var_name stays as written
+    .replace(/(^|[^\p{L}\p{N}_])(__?)(?=\S)(.+?)(?<=\S)\2(?![\p{L}\p{N}_])/gu, '$1$3')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\uE000(\d+)\uE000/g, (_match, index: string) => formulas[Number(index)])
+    .replace(/\uE001(\d+)\uE001/g, (_match, index: string) => codeSpans[Number(index)])
+    .replace(/\s+/g, ' ')
+    .trim();
+};
@@ -0,0 +1,297 @@
+/**
+ * Math Utility
+ * Finds LaTeX formulas in text and converts Word (OMML) and MathML equations to LaTeX
+ */
+
+export type MathSegment =
+  | { type: 'text'; text: string }
+  | { type: 'math'; latex: string; display: boolean; source: string };
+
+export const OMML_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+
+// $$…$$, \[…\], \(…\), equation-like environments, then $…$. A single dollar only
+// opens math when followed by a non-space and only closes when not followed by a
+// digit, so prices like "$5 and $10" stay text.
+const MATH_PATTERN = new RegExp(
+  [
+    String.raw`\$\$([\s\S]+?)\$\$`,
+    String.raw`\\\[([\s\S]+?)\\\]`,
+    String.raw`\\\(([\s\S]+?)\\\)`,
+    String.raw`(\\begin\{(equation|align|gather|multline)(\*?)\}[\s\S]+?\\end\{\5\6\})`,
+    String.raw`(?<![\\$])\$(?![\s$])((?:\\.|[^$\\\n])+?)(?<!\s)\$(?!\d)`
+  ].join('|'),
+  'g'
+);
+
+const LATEX_SPECIAL_CHARS = /[{}#%&_^~\\$]/g;
+
+const NARY_OPERATORS: Record<string, string> = {
+  '∑': '\\sum',
+  '∏': '\\prod',
+  '∐': '\\coprod',
+  '∫': '\\int',
+  '∬': '\\iint',
+  '∭': '\\iiint',
+  '∮': '\\oint',
+  '⋃': '\\bigcup',
+  '⋂': '\\bigcap'
+};
+
+const ACCENTS: Record<string, string> = {
+  '̂': '\\hat',
+  '̃': '\\tilde',
+  '̄': '\\bar',
+  '̅': '\\overline',
+  '̇': '\\dot',
+  '̈': '\\ddot',
+  '⃗': '\\vec',
+  '→': '\\vec',
+  '^': '\\hat',
+  '~': '\\tilde',
+  '¯': '\\bar'
+};
+
+const FUNCTION_NAMES = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'dim', 'gcd', 'arg', 'deg'
+]);
+
+/**
+ * Splits text into plain text and LaTeX formula segments
+ */
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+
+    const [source, displayDollars, displayBrackets, inlineParens, environment, , , inlineDollars] = match;
+    const latex = displayDollars ?? displayBrackets ?? inlineParens ?? environment ?? inlineDollars;
+    const display = displayDollars !== undefined || displayBrackets !== undefined || environment !== undefined;
+    segments.push({ type: 'math', latex: latex.trim(), display, source });
+    lastIndex = index + source.length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return segments;
+};
+
+/**
+ * Checks whether text contains at least one LaTeX formula
+ */
+export const hasMath = (text: string): boolean => {
+  MATH_PATTERN.lastIndex = 0;
+  return MATH_PATTERN.test(text);
+};
+
+/**
+ * Finds the [start, end) offsets of every formula, so callers can avoid cutting through one
+ */
+export const findMathSpans = (text: string): { start: number; end: number }[] => {
+  return [...text.matchAll(MATH_PATTERN)].map(match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+};
+
+/**
+ * Wraps LaTeX in the delimiters used throughout the pipeline
+ */
+export const wrapMath = (latex: string, display: boolean): string => {
+  const trimmed = latex.trim();
+  if (!trimmed) return '';
+  return display ? `$$${trimmed}$$` : `$${trimmed}$`;
+};
+
+/**
+ * Converts a Word equation (m:oMath or m:oMathPara) to delimited LaTeX
+ */
+export const ommlToLatex = (element: Element): string => {
+  if (element.localName === 'oMathPara') {
+    return ommlChildren(element)
+      .filter(child => child.localName === 'oMath')
+      .map(equation => wrapMath(convertOmml(equation), true))
+      .join(' ');
+  }
+  return wrapMath(convertOmml(element), false);
+};
+
+/**
+ * Converts a MathML <math> element to delimited LaTeX, preferring a TeX annotation when present
+ */
+export const mathmlToLatex = (element: Element): string => {
+  const display = element.getAttribute('display') === 'block' || element.getAttribute('mode') === 'display';
+  const annotation = Array.from(element.getElementsByTagName('annotation'))
+    .find(node => /^(application\/x-tex|tex)$/i.test(node.getAttribute('encoding') || ''));
+  const latex = annotation?.textContent || convertMathml(element);
+  return wrapMath(latex, display);
+};
+
+/**
+ * Converts the content of an OMML element to LaTeX
+ */
+const convertOmml = (element: Element | undefined): string => {
+  if (!element) return '';
+  return ommlChildren(element).map(convertOmmlNode).join('');
+};
+
+const convertOmmlNode = (node: Element): string => {
+  const part = (name: string) => convertOmml(ommlChild(node, name));
+  const property = (propertiesName: string, name: string) =>
+    ommlChild(ommlChild(node, propertiesName), name)?.getAttributeNS(OMML_NS, 'val') ?? null;
+
+  switch (node.localName) {
+    case 'r':
+      return ommlChildren(node)
+        .filter(child => child.localName === 't')
+        .map(child => escapeLatex(child.textContent || ''))
+        .join('');
+    case 'f':
+      return `\\frac{${part('num')}}{${part('den')}}`;
+    case 'sSup':
+      return `{${part('e')}}^{${part('sup')}}`;
+    case 'sSub':
+      return `{${part('e')}}_{${part('sub')}}`;
+    case 'sSubSup':
+      return `{${part('e')}}_{${part('sub')}}^{${part('sup')}}`;
+    case 'sPre':
+      return `{}_{${part('sub')}}^{${part('sup')}}{${part('e')}}`;
+    case 'rad': {
+      const degree = part('deg');
+      return degree ? `\\sqrt[${degree}]{${part('e')}}` : `\\sqrt{${part('e')}}`;
+    }
+    case 'nary': {
+      const symbol = property('naryPr', 'chr') ?? '∫';
+      const operator = NARY_OPERATORS[symbol] ?? symbol;
+      const sub = part('sub');
+      const sup = part('sup');
+      return `${operator}${sub ? `_{${sub}}` : ''}${sup ? `^{${sup}}` : ''}{${part('e')}}`;
+    }
+    case 'd': {
+      const open = property('dPr', 'begChr') ?? '(';
+      const close = property('dPr', 'endChr') ?? ')';
+      const separator = property('dPr', 'sepChr') ?? '|';
+      const items = ommlChildren(node).filter(child => child.localName === 'e').map(convertOmml);
+      return `\\left${delimiter(open)}${items.join(escapeLatex(separator))}\\right${delimiter(close)}`;
+    }
+    case 'func':
+      return `${functionName(part('fName'))}{${part('e')}}`;
+    case 'limLow':
+      return `${functionName(part('e'))}_{${part('lim')}}`;
+    case 'limUpp':
+      return `${functionName(part('e'))}^{${part('lim')}}`;
+    case 'acc': {
+      const accent = ACCENTS[property('accPr', 'chr') ?? '̂'] ?? '\\hat';
+      return `${accent}{${part('e')}}`;
+    }
+    case 'bar':
+      return property('barPr', 'pos') === 'top' ? `\\overline{${part('e')}}` : `\\underline{${part('e')}}`;
+    case 'groupChr':
+      return property('groupChrPr', 'pos') === 'top' ? `\\overbrace{${part('e')}}` : `\\underbrace{${part('e')}}`;
+    case 'm': {
+      const rows = ommlChildren(node)
+        .filter(child => child.localName === 'mr')
+        .map(row => ommlChildren(row).filter(cell => cell.localName === 'e').map(convertOmml).join(' & '));
+      return `\\begin{matrix}${rows.join(' \\\\ ')}\\end{matrix}`;
+    }
+    case 'eqArr': {
+      const rows = ommlChildren(node).filter(child => child.localName === 'e').map(convertOmml);
+      return `\\begin{aligned}${rows.join(' \\\\ ')}\\end{aligned}`;
+    }
+    default:
+      // Properties hold formatting only; wrappers (box, borderBox, e, …) hold content
+      return node.localName.endsWith('Pr') ? '' : convertOmml(node);
+  }
+};
+
+/**
+ * Converts MathML presentation markup to LaTeX
+ */
+const convertMathml = (element: Element): string => {
+  const children = Array.from(element.childNodes)
+    .filter((child): child is Element => child.nodeType === 1);
+  const convert = (index: number) => (children[index] ? convertMathml(children[index]) : '');
+
+  switch ((element.localName || element.nodeName).toLowerCase()) {
+    case 'mi':
+    case 'mn':
+    case 'mo': {
+      const text = (element.textContent || '').trim();
+      return FUNCTION_NAMES.has(text) ? `\\${text} ` : escapeLatex(text);
+    }
+    case 'mtext':
+      return `\\text{${escapeLatex(element.textContent || '')}}`;
+    case 'mfrac':
+      return `\\frac{${convert(0)}}{${convert(1)}}`;
+    case 'msqrt':
+      return `\\sqrt{${children.map(convertMathml).join('')}}`;
+    case 'mroot':
+      return `\\sqrt[${convert(1)}]{${convert(0)}}`;
+    case 'msup':
+    case 'mover':
+      return `{${convert(0)}}^{${convert(1)}}`;
+    case 'msub':
+    case 'munder':
+      return `{${convert(0)}}_{${convert(1)}}`;
+    case 'msubsup':
+    case 'munderover':
+      return `{${convert(0)}}_{${convert(1)}}^{${convert(2)}}`;
+    case 'mtable':
+      return `\\begin{matrix}${children
+        .map(row => Array.from(row.childNodes)
+          .filter((cell): cell is Element => cell.nodeType === 1)
+          .map(convertMathml)
+          .join(' & '))
+        .join(' \\\\ ')}\\end{matrix}`;
+    case 'semantics':
+      return convert(0);
+    case 'annotation':
+    case 'annotation-xml':
+      return '';
+    default:
+      return children.map(convertMathml).join('');
+  }
+};
+
+const ommlChildren = (element: Element): Element[] => {
+  return Array.from(element.childNodes)
+    .filter((child): child is Element => child.nodeType === 1 && (child as Element).namespaceURI === OMML_NS);
+};
+
+const ommlChild = (element: Element | undefined, localName: string): Element | undefined => {
+  return element ? ommlChildren(element).find(child => child.localName === localName) : undefined;
+};
+
+/**
+ * Turns a function name written as plain text ("sin", "lim") into its LaTeX command
+ */
+const functionName = (name: string): string => {
+  const trimmed = name.trim();
+  return FUNCTION_NAMES.has(trimmed) ? `\\${trimmed}` : trimmed;
+};
+
+/**
+ * Formats a bracket character for \left / \right; an empty character means no bracket
+ */
+const delimiter = (character: string): string => {
+  if (!character) return '.';
+  if (character === '{' || character === '}') return `\\${character}`;
+  if (character === '‖') return '\\|';
+  if (character === '⟨') return '\\langle';
+  if (character === '⟩') return '\\rangle';
+  return character;
+};
+
+const escapeLatex = (text: string): string => {
+  return text.replace(LATEX_SPECIAL_CHARS, character => {
+    if (character === '\\') return '\\backslash ';
+    if (character === '^' || character === '~') return `\\${character}{}`;
+    return `\\${character}`;
+  });
+};
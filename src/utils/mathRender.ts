@@ -0,0 +1,83 @@
+/**
+ * Math Render Utility
+ * Typesets LaTeX formulas with KaTeX for the quiz view and the PDF export
+ */
+
+import katex from 'katex';
+import html2canvas from 'html2canvas';
+import { splitMath } from './math';
+import 'katex/dist/katex.min.css';
+
+export interface RenderedMathImage {
+  dataUrl: string;
+  width: number; // CSS pixels
+  height: number;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+/**
+ * Renders text to HTML, typesetting its formulas and escaping everything else
+ */
+export const renderMathToHtml = (text: string): string => {
+  return splitMath(text)
+    .map(segment => {
+      if (segment.type === 'text') return escapeHtml(segment.text);
+      try {
+        return katex.renderToString(segment.latex, {
+          displayMode: segment.display,
+          throwOnError: false,
+          output: 'htmlAndMathml'
+        });
+      } catch (error) {
+        console.warn('Failed to render formula:', error);
+        return escapeHtml(segment.source);
+      }
+    })
+    .join('');
+};
+
+/**
+ * Typesets text with formulas off-screen and captures it as a PNG image
+ */
+export const renderMathToImage = async (
+  text: string,
+  options: { width: number; fontSize: number; bold?: boolean }
+): Promise<RenderedMathImage> => {
+  const container = document.createElement('div');
+  Object.assign(container.style, {
+    position: 'absolute',
+    left: '-10000px',
+    top: '0',
+    width: `${options.width}px`,
+    fontSize: `${options.fontSize}px`,
+    fontFamily: 'Helvetica, Arial, sans-serif',
+    fontWeight: options.bold ? 'bold' : 'normal',
+    lineHeight: '1.4',
+    whiteSpace: 'pre-wrap',
+    color: '#000000',
+    background: '#ffffff'
+  });
+  container.innerHTML = renderMathToHtml(text);
+  document.body.appendChild(container);
+
+  try {
+    // Laying out the formulas requests KaTeX's fonts; capturing before they arrive draws fallback glyphs
+    container.getBoundingClientRect();
+    await document.fonts?.ready;
+    const canvas = await html2canvas(container, { backgroundColor: '#ffffff', scale: 2, logging: false });
+    return { dataUrl: canvas.toDataURL('image/png'), width: container.offsetWidth, height: container.offsetHeight };
+  } finally {
+    container.remove();
+  }
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, character => HTML_ESCAPES[character]);
+};
@@ -3,6 +3,24 @@
  * Handles communication with AI models (Gemini API + Hugging Face fallback)
  */
 
+import { chunkText, formatSectionPath, type TextChunk } from './chunker';
+import type { DocumentTable, PageUnit } from './documentStructure';
+import { generateTableQuestions, type QuizTableSource } from './tableQuestions';
+import { generateFigureQuestions, type QuizFigureSource } from './figureQuestions';
+import { countWords } from './language';
+import { getTokenizer } from './tokenizer';
+import { createQuestionId } from './hash';
+import { buildCoverageReport, planQuestions, type CoverageReport } from './coveragePlanner';
+
+export interface QuizMedia {
+  type: 'image';
+  src: string; // URL or data URL
+  alt: string;
+  caption?: string;
+  width?: number; // Intrinsic size in pixels, when known
+  height?: number;
+}
+
 export interface QuizQuestion {
   id: string;
   type: 'mcq' | 'true_false';
@@ -12,6 +30,13 @@ export interface QuizQuestion {
   explanation?: string;
   difficulty?: 'easy' | 'medium' | 'hard';
   topic?: string;
+  pageNumbers?: number[];
+  pageUnit?: PageUnit; // Whether pageNumbers refer to pages or slides
+  sourceId?: string; // Document the question came from in multi-document sessions
+  sourceName?: string;
+  chunkId?: string; // Chunk of the text the question was generated from
+  table?: DocumentTable; // Shown with the question when it asks about table data
+  media?: QuizMedia; // Figure shown with the question
 }
 
 export interface QuizGenerationOptions {
@@ -19,6 +44,10 @@ export interface QuizGenerationOptions {
   questionTypes?: ('mcq' | 'true_false')[];
   difficulty?: 'easy' | 'medium' | 'hard' | 'mixed';
   includeExplanations?: boolean;
+  pageUnit?: PageUnit; // For chunks that do not name their own source's unit
+  tables?: QuizTableSource[]; // Tables in the quizzed text, for data questions
+  figures?: QuizFigureSource[]; // Figures in the quizzed pages, for image questions
+  onProgress?: (chunksDone: number, totalChunks: number) => void; // Per-chunk generation progress
 }
 
 export interface ModelResponse {
@@ -26,15 +55,42 @@ export interface ModelResponse {
   questions: QuizQuestion[];
   model: string;
   processingTime: number;
+  coverage?: CoverageReport; // Which sections of the text the questions cover
   error?: string;
 }
 
+export const PRIMARY_MODEL = 'gemini-1.5-flash';
+const FALLBACK_MODEL = 'hugging-face-fallback';
+
+// Each model's context window, and the tokens kept free for instructions and the generated questions
+const MODEL_LIMITS: Record<string, { contextTokens: number; reservedTokens: number }> = {
+  [PRIMARY_MODEL]: { contextTokens: 1048576, reservedTokens: 10000 },
+  [FALLBACK_MODEL]: { contextTokens: 4096, reservedTokens: 1536 }
+};
+
+// Share of the quiz given to table and figure questions when the text has them
+const TABLE_QUESTION_SHARE = 0.2;
+const FIGURE_QUESTION_SHARE = 0.2;
+const MAX_CONCURRENT_REQUESTS = 3;
+// Candidates generated for each question in the final quiz, so merging has room to choose
+const CANDIDATE_OVERSAMPLING = 2;
+// Questions sharing more of their terms than this ask the same thing
+const DUPLICATE_QUESTION_SIMILARITY = 0.7;
+
 /**
- * Generates quiz questions from text using AI models
+ * Generates quiz questions from text using AI models, map-reduce style: the
+ * questions are planned across the document's sections by salience, candidates
+ * are generated for each planned chunk, then merged, deduplicated and selected
+ * to the plan. Questions cite the source and pages of the chunk they came from;
+ * the text is chunked here when no chunks are given. The response reports which
+ * sections the quiz covers.
+ * Tables passed in the options add questions that read or compare their values,
+ * and figures add questions that show the figure and ask about its labels or caption.
  */
 export const generateQuiz = async (
   text: string,
-  options: QuizGenerationOptions = {}
+  options: QuizGenerationOptions = {},
+  chunks: TextChunk[] = []
 ): Promise<ModelResponse> => {
   const startTime = Date.now();
   
@@ -45,37 +101,65 @@ export const generateQuiz = async (
     includeExplanations = true
   } = options;
 
+  const textChunks = chunks.length > 0 ? chunks : chunkText(text);
+
   try {
-    // For demo purposes, simulate AI processing and return sample questions
-    // In production, implement actual API calls to Gemini and Hugging Face
-    
-    await simulateProcessingDelay();
-    
-    const questions = generateSampleQuestions(text, {
-      questionCount,
-      questionTypes,
-      difficulty,
-      includeExplanations
-    });
+    const tableQuestions = options.tables?.length
+      ? generateTableQuestions(
+          options.tables,
+          Math.max(1, Math.round(questionCount * TABLE_QUESTION_SHARE)),
+          questionTypes,
+          includeExplanations
+        )
+      : [];
+    const figureQuestions = options.figures?.length
+      ? generateFigureQuestions(
+          options.figures,
+          Math.max(1, Math.round(questionCount * FIGURE_QUESTION_SHARE)),
+          questionTypes,
+          includeExplanations
+        )
+      : [];
+    const textQuestionCount = Math.max(0, questionCount - tableQuestions.length - figureQuestions.length);
+    const textResult = textQuestionCount > 0
+      ? await generateTextQuestions(textChunks, textQuestionCount, {
+          ...options,
+          questionTypes,
+          difficulty,
+          includeExplanations
+        }, PRIMARY_MODEL)
+      : { questions: [], chunks: textChunks };
 
+    // Generators can arrive at the same question; its ID is derived from its content
+    const allQuestions = [...textResult.questions, ...tableQuestions, ...figureQuestions];
+    const uniqueQuestions = allQuestions.filter((question, index) =>
+      allQuestions.findIndex(other => other.id === question.id) === index
+    );
     return {
       success: true,
-      questions,
-      model: 'gemini-1.5-flash', // Simulated
-      processingTime: Date.now() - startTime
+      questions: uniqueQuestions,
+      model: PRIMARY_MODEL, // Simulated
+      processingTime: Date.now() - startTime,
+      coverage: buildCoverageReport(textResult.chunks, uniqueQuestions)
     };
   } catch (error) {
     // Fallback to alternative generation method
     try {
       await simulateProcessingDelay(1000);
       
-      const fallbackQuestions = generateSampleQuestions(text, options, true);
+      const fallback = await generateTextQuestions(textChunks, questionCount, {
+        ...options,
+        questionTypes,
+        difficulty,
+        includeExplanations
+      }, FALLBACK_MODEL);
       
       return {
         success: true,
-        questions: fallbackQuestions,
-        model: 'hugging-face-fallback',
-        processingTime: Date.now() - startTime
+        questions: fallback.questions,
+        model: FALLBACK_MODEL,
+        processingTime: Date.now() - startTime,
+        coverage: buildCoverageReport(fallback.chunks, fallback.questions)
       };
     } catch (fallbackError) {
       return {
@@ -89,6 +173,228 @@ export const generateQuiz = async (
   }
 };
 
+/**
+ * Returns how many tokens of document text fit in one prompt to the model
+ */
+export const getChunkTokenBudget = (model: string = PRIMARY_MODEL): number => {
+  const limits = MODEL_LIMITS[model] ?? MODEL_LIMITS[PRIMARY_MODEL];
+  return limits.contextTokens - limits.reservedTokens;
+};
+
+/**
+ * Map-reduce over the chunks with one model: plans how many questions each chunk
+ * gets, generates candidates for the planned chunks, then drops repeats and
+ * picks to the plan and the requested mix. Returns the questions with the chunks
+ * as split for the model, which the questions' chunk IDs refer to.
+ */
+const generateTextQuestions = async (
+  chunks: TextChunk[],
+  count: number,
+  options: QuizGenerationOptions,
+  model: string
+): Promise<{ questions: QuizQuestion[]; chunks: TextChunk[] }> => {
+  const modelChunks = fitChunksToModel(chunks, model);
+  const plan = planQuestions(modelChunks, count);
+  const plannedChunks = modelChunks.filter((_, index) => plan[index] > 0);
+  const allocations = plan.filter(allocation => allocation > 0);
+
+  const candidates = await generateCandidates(
+    plannedChunks,
+    allocations.map(allocation => allocation * CANDIDATE_OVERSAMPLING),
+    options
+  );
+  if (candidates.every(chunkCandidates => chunkCandidates.length === 0)) {
+    throw new Error('No chunk produced any questions');
+  }
+
+  const questions = selectQuestions(
+    deduplicateQuestions(candidates),
+    allocations,
+    count,
+    options.questionTypes ?? ['mcq', 'true_false']
+  );
+  return { questions, chunks: modelChunks };
+};
+
+/**
+ * Splits chunks that are too long for the model's prompt budget, keeping their
+ * source, pages and section
+ */
+const fitChunksToModel = (chunks: TextChunk[], model: string): TextChunk[] => {
+  const tokenizer = getTokenizer(model);
+  const maxTokens = getChunkTokenBudget(model);
+
+  return chunks.flatMap(chunk => {
+    const tokenCount = tokenizer.countTokens(chunk.content);
+    if (tokenCount <= maxTokens) {
+      return [{ ...chunk, tokenCount }];
+    }
+    return chunkText(chunk.content, {
+      maxWords: Infinity,
+      maxChars: Infinity,
+      maxTokens,
+      tokenizer: model,
+      language: chunk.language
+    })
+      .map((part, index) => ({
+        ...chunk,
+        id: `${chunk.id}_${index}`,
+        content: part.content,
+        wordCount: part.wordCount,
+        tokenCount: part.tokenCount
+      }));
+  });
+};
+
+/**
+ * Generates the given number of candidate questions for each chunk, a few
+ * requests at a time. Returns one list per chunk, in document order; chunks
+ * that fail give an empty list.
+ */
+const generateCandidates = async (
+  chunks: TextChunk[],
+  questionCounts: number[],
+  options: QuizGenerationOptions
+): Promise<QuizQuestion[][]> => {
+  const results: QuizQuestion[][] = chunks.map(() => []);
+  let nextIndex = 0;
+  let chunksDone = 0;
+
+  const runRequests = async () => {
+    while (nextIndex < chunks.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await generateChunkQuestions(chunks[index], {
+          ...options,
+          questionCount: questionCounts[index]
+        });
+      } catch (error) {
+        console.warn(`Question generation failed for ${chunks[index].id}:`, error);
+      }
+      options.onProgress?.(++chunksDone, chunks.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_REQUESTS, chunks.length) }, runRequests));
+  return results;
+};
+
+/**
+ * Generates questions from one chunk, citing the chunk's source and pages and
+ * taking the topic from the document section the chunk belongs to
+ */
+const generateChunkQuestions = async (
+  chunk: TextChunk,
+  options: QuizGenerationOptions
+): Promise<QuizQuestion[]> => {
+  // For demo purposes, simulate AI processing and return sample questions
+  // In production, send the chunk to Gemini and Hugging Face
+  await simulateProcessingDelay(400, 400);
+
+  const hasPages = (chunk.pageNumbers?.length ?? 0) > 0;
+  return generateSampleQuestions(chunk.content, options).map(question => ({
+    ...question,
+    topic: chunk.sectionPath ? formatSectionPath(chunk.sectionPath) : question.topic,
+    pageNumbers: hasPages ? chunk.pageNumbers : undefined,
+    pageUnit: hasPages ? chunk.pageUnit ?? options.pageUnit ?? 'page' : undefined,
+    sourceId: chunk.sourceId,
+    sourceName: chunk.sourceName,
+    chunkId: chunk.id
+  }));
+};
+
+/**
+ * Removes questions that repeat one asked earlier in the document, keeping the first
+ */
+const deduplicateQuestions = (candidates: QuizQuestion[][]): QuizQuestion[][] => {
+  const kept: Set<string>[] = [];
+
+  return candidates.map(chunkCandidates => chunkCandidates.filter(question => {
+    const terms = extractTerms(question.question);
+    const isDuplicate = kept.some(other => calculateTermSimilarity(terms, other) > DUPLICATE_QUESTION_SIMILARITY);
+    if (!isDuplicate) kept.push(terms);
+    return !isDuplicate;
+  }));
+};
+
+/**
+ * Selects the final questions, taking one per chunk in turn (spread across the
+ * document) up to each chunk's allocation, and splitting the count evenly
+ * between the requested question types. Types that run short are topped up
+ * from the others, and chunks that run short from the other chunks.
+ */
+const selectQuestions = (
+  candidates: QuizQuestion[][],
+  allocations: number[],
+  count: number,
+  questionTypes: ('mcq' | 'true_false')[]
+): QuizQuestion[] => {
+  const remaining = candidates.map(chunkCandidates => [...chunkCandidates]);
+  const order = spreadOrder(remaining.length);
+  const quotas = new Map(questionTypes.map((type, index) => [
+    type,
+    Math.floor(count / questionTypes.length) + (index < count % questionTypes.length ? 1 : 0)
+  ]));
+  const allowances = [...allocations];
+  const selected: QuizQuestion[] = [];
+
+  const takeRound = (fitsMix: boolean, fitsPlan: boolean): boolean => {
+    let tookAny = false;
+    for (const chunkIndex of order) {
+      if (selected.length >= count) break;
+      if (fitsPlan && allowances[chunkIndex] <= 0) continue;
+      const pick = remaining[chunkIndex].findIndex(question => !fitsMix || (quotas.get(question.type) ?? 0) > 0);
+      if (pick === -1) continue;
+      const [question] = remaining[chunkIndex].splice(pick, 1);
+      quotas.set(question.type, (quotas.get(question.type) ?? 0) - 1);
+      allowances[chunkIndex]--;
+      selected.push(question);
+      tookAny = true;
+    }
+    return tookAny;
+  };
+
+  // Each pass relaxes a constraint once the stricter passes run dry: the plan is kept longest
+  const passes = [
+    { fitsMix: true, fitsPlan: true },
+    { fitsMix: false, fitsPlan: true },
+    { fitsMix: true, fitsPlan: false },
+    { fitsMix: false, fitsPlan: false }
+  ];
+  for (const { fitsMix, fitsPlan } of passes) {
+    let tookAny = true;
+    while (selected.length < count && tookAny) {
+      tookAny = takeRound(fitsMix, fitsPlan);
+    }
+  }
+
+  return selected.map(question => ({ ...question, id: createQuestionId(question) }));
+};
+
+/**
+ * Orders 0..length-1 so that every prefix is spread evenly over the range,
+ * e.g. 0, 4, 2, 6, 1, 5, 3, 7 for eight chunks
+ */
+const spreadOrder = (length: number): number[] => {
+  const bits = Math.max(1, Math.ceil(Math.log2(Math.max(1, length))));
+  return Array.from({ length: 1 << bits }, (_, index) =>
+    parseInt(index.toString(2).padStart(bits, '0').split('').reverse().join(''), 2)
+  ).filter(index => index < length);
+};
+
+/**
+ * Share of terms two questions have in common (Jaccard similarity)
+ */
+const calculateTermSimilarity = (terms1: Set<string>, terms2: Set<string>): number => {
+  const union = new Set([...terms1, ...terms2]);
+  if (union.size === 0) return 1;
+  let shared = 0;
+  terms1.forEach(term => {
+    if (terms2.has(term)) shared++;
+  });
+  return shared / union.size;
+};
+
 /**
  * Generates sample quiz questions based on common AI/ML topics
  * In production, this would be replaced with actual AI model calls
@@ -195,47 +501,38 @@ const generateSampleQuestions = (
   const selected = shuffled.slice(0, questionCount);
 
   // Add IDs and optionally remove explanations
-  return selected.map((question, index) => ({
+  return selected.map(question => ({
     ...question,
-    id: `q_${Date.now()}_${index}`,
+    id: createQuestionId(question),
     explanation: includeExplanations ? question.explanation : undefined
   }));
 };
 
 /**
- * Simulates AI processing delay
+ * Extracts the set of significant lowercase terms from text
  */
-const simulateProcessingDelay = (baseDelay = 3000): Promise<void> => {
-  const delay = baseDelay + Math.random() * 2000; // Add some randomness
-  return new Promise(resolve => setTimeout(resolve, delay));
+const extractTerms = (text: string): Set<string> => {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(term => term.length > 3)
+  );
 };
 
 /**
- * Validates text content for quiz generation
+ * Simulates AI processing delay
  */
-export const validateTextForQuiz = (text: string): { isValid: boolean; message?: string } => {
-  if (!text || text.trim().length === 0) {
-    return { isValid: false, message: 'Text content is empty' };
-  }
-
-  const wordCount = text.trim().split(/\s+/).length;
-  
-  if (wordCount < 50) {
-    return { isValid: false, message: 'Text is too short. At least 50 words are required for quiz generation.' };
-  }
-
-  if (wordCount > 10000) {
-    return { isValid: false, message: 'Text is too long. Please use a document with fewer than 10,000 words.' };
-  }
-
-  return { isValid: true };
+const simulateProcessingDelay = (baseDelay = 3000, jitter = 2000): Promise<void> => {
+  const delay = baseDelay + Math.random() * jitter; // Add some randomness
+  return new Promise(resolve => setTimeout(resolve, delay));
 };
 
 /**
  * Estimates the number of questions that can be generated from text
  */
 export const estimateQuestionCount = (text: string): number => {
-  const wordCount = text.trim().split(/\s+/).length;
+  const wordCount = countWords(text);
   
   // Rough estimation: 1 question per 100-200 words
   const estimatedCount = Math.floor(wordCount / 150);
@@ -0,0 +1,74 @@
+/**
+ * OCR Utility
+ * Recognizes text in rendered page images using a locally bundled Tesseract WASM build
+ */
+
+import { createWorker, type Worker as TesseractWorker } from 'tesseract.js';
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+export interface OCRResult {
+  text: string;
+  confidence: number; // 0-100, as reported by Tesseract
+}
+
+let workerPromise: Promise<TesseractWorker> | null = null;
+
+/**
+ * Lazily starts a Tesseract worker with the bundled core and language data
+ */
+const getWorker = (): Promise<TesseractWorker> => {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const response = await fetch(englishDataUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to load OCR language data (${response.status})`);
+      }
+      const data = new Uint8Array(await response.arrayBuffer());
+
+      return createWorker([{ code: 'eng', data }], undefined, {
+        workerPath: tesseractWorkerUrl,
+        corePath: tesseractCoreUrl,
+        cacheMethod: 'none'
+      });
+    })();
+
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+
+  return workerPromise;
+};
+
+/**
+ * Runs OCR on a rendered page image
+ */
+export const recognizeImage = async (
+  image: HTMLCanvasElement | OffscreenCanvas
+): Promise<OCRResult> => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+
+  return {
+    text: data.text.trim(),
+    confidence: Math.round(data.confidence)
+  };
+};
+
+/**
+ * Stops the Tesseract worker and releases its memory
+ */
+export const terminateOCR = async (): Promise<void> => {
+  if (!workerPromise) return;
+
+  const pending = workerPromise;
+  workerPromise = null;
+  try {
+    const worker = await pending;
+    await worker.terminate();
+  } catch (error) {
+    // Worker failed to start; nothing to release
+  }
+};
@@ -0,0 +1,219 @@
+/**
+ * PDF Outline Utility
+ * Reads chapter and section headings from the PDF outline, or infers them from font sizes
+ */
+
+import type { PDFDocumentProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { PageText } from './pdfParser';
+import type { SectionHeading } from './sections';
+import { expandLigatures } from './layoutRepair';
+
+export interface TextLine {
+  text: string;
+  fontSize: number;
+}
+
+type OutlineItem = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+// Lines at least this much larger than the body text are heading candidates
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+const MAX_HEADING_LEVELS = 3;
+
+/**
+ * Reads the outline (bookmarks) of a PDF as headings, one level per nesting depth
+ */
+export const readPDFOutline = async (
+  pdf: PDFDocumentProxy,
+  pages: PageText[]
+): Promise<SectionHeading[]> => {
+  const outline = await pdf.getOutline();
+  if (!outline || outline.length === 0) {
+    return [];
+  }
+
+  const headings: SectionHeading[] = [];
+
+  const visit = async (items: OutlineItem[], level: number) => {
+    for (const item of items) {
+      const pageNumber = await resolveDestination(pdf, item.dest);
+      const page = pageNumber ? pages[pageNumber - 1] : undefined;
+      const title = item.title.replace(/\s+/g, ' ').trim();
+
+      if (page && title) {
+        headings.push({ title, level, pageNumber: page.pageNumber, startIndex: locateTitle(page, title) });
+      }
+      if (item.items?.length) {
+        await visit(item.items, level + 1);
+      }
+    }
+  };
+
+  await visit(outline, 1);
+  return headings;
+};
+
+/**
+ * Groups a page's text items into lines, each with the font size that covers
+ * most of its characters, so a large drop cap or symbol does not make a line a heading
+ */
+export const collectTextLines = (items: TextItem[]): TextLine[] => {
+  const lines: TextLine[] = [];
+  let text = '';
+  let charsPerSize = new Map<number, number>();
+
+  const pushLine = () => {
+    lines.push({ text: text.replace(/\s+/g, ' ').trim(), fontSize: findDominantSize(charsPerSize) });
+    text = '';
+    charsPerSize = new Map();
+  };
+
+  items.forEach(item => {
+    if (typeof item.str !== 'string') return;
+    text += item.str;
+    const chars = item.str.replace(/\s+/g, '').length;
+    const size = roundSize(Math.abs(item.height || item.transform?.[3] || 0));
+    if (chars > 0 && size > 0) {
+      charsPerSize.set(size, (charsPerSize.get(size) ?? 0) + chars);
+    }
+    if (item.hasEOL) {
+      pushLine();
+    } else if (item.str && !/\s$/.test(item.str)) {
+      text += ' ';
+    }
+  });
+
+  if (text.trim()) {
+    pushLine();
+  }
+  return lines
+    .map(line => ({ ...line, text: expandLigatures(line.text) }))
+    .filter(line => line.text.length > 0);
+};
+
+/**
+ * Infers headings from runs of text set larger than the body text.
+ * The largest sizes become top-level headings; lines repeated on most pages
+ * (running heads) are ignored.
+ */
+export const inferHeadingsFromFontSize = (
+  linesByPage: TextLine[][],
+  pages: PageText[]
+): SectionHeading[] => {
+  const bodySize = findBodyFontSize(linesByPage);
+  if (bodySize === 0) {
+    return [];
+  }
+
+  const candidates = linesByPage.flatMap((lines, pageIndex) =>
+    lines
+      .filter(line =>
+        line.fontSize >= bodySize * HEADING_SIZE_RATIO &&
+        line.text.length <= MAX_HEADING_LENGTH &&
+        /\p{L}/u.test(line.text)
+      )
+      .map(line => ({ ...line, pageIndex }))
+  );
+
+  const pagesPerTitle = new Map<string, Set<number>>();
+  candidates.forEach(candidate => {
+    const key = candidate.text.toLowerCase();
+    pagesPerTitle.set(key, (pagesPerTitle.get(key) ?? new Set()).add(candidate.pageIndex));
+  });
+  const isRunningHead = (text: string) => {
+    const pageCount = pagesPerTitle.get(text.toLowerCase())?.size ?? 0;
+    return pageCount >= 3 && pageCount > pages.length / 2;
+  };
+
+  const headingLines = candidates.filter(candidate => !isRunningHead(candidate.text));
+  const sizes = [...new Set(headingLines.map(line => roundSize(line.fontSize)))].sort((a, b) => b - a);
+
+  const headings: SectionHeading[] = [];
+  const cursors = new Map<number, number>();
+
+  headingLines.forEach(line => {
+    const page = pages[line.pageIndex];
+    if (!page) return;
+
+    const startIndex = locateTitle(page, line.text, cursors.get(line.pageIndex));
+    cursors.set(line.pageIndex, startIndex + line.text.length);
+    headings.push({
+      title: line.text,
+      level: Math.min(sizes.indexOf(roundSize(line.fontSize)) + 1, MAX_HEADING_LEVELS),
+      pageNumber: page.pageNumber,
+      startIndex
+    });
+  });
+
+  return headings;
+};
+
+/**
+ * Resolves an outline destination to a 1-based page number
+ */
+const resolveDestination = async (
+  pdf: PDFDocumentProxy,
+  dest: OutlineItem['dest']
+): Promise<number | null> => {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    const target = explicit?.[0];
+    if (typeof target === 'number') {
+      return target + 1;
+    }
+    if (target && typeof target === 'object') {
+      return (await pdf.getPageIndex(target)) + 1;
+    }
+  } catch (error) {
+    console.warn('Failed to resolve outline destination:', error);
+  }
+  return null;
+};
+
+/**
+ * Finds a heading's offset in the full text, falling back to the start of its page
+ */
+const locateTitle = (page: PageText, title: string, fromIndex?: number): number => {
+  const pattern = title
+    .split(/\s+/)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  const searchFrom = Math.max(0, (fromIndex ?? page.startIndex) - page.startIndex);
+  const match = new RegExp(pattern, 'i').exec(page.text.slice(searchFrom));
+
+  return match ? page.startIndex + searchFrom + match.index : page.startIndex;
+};
+
+/**
+ * Finds the font size used for the most characters in the document
+ */
+const findBodyFontSize = (linesByPage: TextLine[][]): number => {
+  const charsPerSize = new Map<number, number>();
+  linesByPage.flat().forEach(line => {
+    if (line.fontSize > 0) {
+      const size = roundSize(line.fontSize);
+      charsPerSize.set(size, (charsPerSize.get(size) ?? 0) + line.text.length);
+    }
+  });
+  return findDominantSize(charsPerSize);
+};
+
+/**
+ * Rounds a font size to the nearest half point so equal sizes group together
+ */
+const roundSize = (size: number): number => Math.round(size * 2) / 2;
+
+/**
+ * Picks the size with the most characters, the larger one on a tie; 0 when there are none
+ */
+const findDominantSize = (charsPerSize: Map<number, number>): number => {
+  let dominant = 0;
+  let mostChars = 0;
+  charsPerSize.forEach((chars, size) => {
+    if (chars > mostChars || (chars === mostChars && size > dominant)) {
+      dominant = size;
+      mostChars = chars;
+    }
+  });
+  return dominant;
+};
@@ -3,100 +3,491 @@
  * Extracts text content from uploaded PDF files using PDF.js
  */
 
-// Note: In a real implementation, you would use pdf-parse or PDF.js
-// For this demo, we'll simulate PDF parsing
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { recognizeImage, terminateOCR } from './ocr';
+import { readPDFOutline, collectTextLines, inferHeadingsFromFontSize, type TextLine } from './pdfOutline';
+import { buildSectionTree, type DocumentSection } from './sections';
+import { normalizePageTexts, orderTextItems } from './layoutRepair';
+import { detectTables } from './tableDetector';
+import { findFigureRegions, renderFigures } from './figureExtractor';
+import { countWords, getWordsPerMinute } from './language';
+import {
+  getPageUnitLabel,
+  type DocumentBlock,
+  type DocumentFigure,
+  type DocumentFormat,
+  type DocumentTable,
+  type PageUnit
+} from './documentStructure';
+import type { SlideContent } from './pptxParser';
+import type { DocumentChapter } from './epubParser';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+  startIndex: number; // Offset of the page's first character in ParsedPDF.text
+  endIndex: number;
+  fromOCR?: boolean; // Text was recognized from the rendered page image
+  ocrConfidence?: number; // 0-100 when fromOCR is set
+}
 
 export interface ParsedPDF {
   text: string;
   pages: number;
+  pageTexts: PageText[];
   wordCount: number;
+  format?: DocumentFormat; // Treated as 'pdf' when missing
+  blocks?: DocumentBlock[]; // Headings, lists and tables for structured formats
+  slides?: SlideContent[]; // Per-slide title, bullets and notes for slide decks
+  chapters?: DocumentChapter[]; // Chapter titles for e-books, one page per chapter
+  sections?: DocumentSection[]; // Chapter/section tree from the PDF outline or inferred headings
+  tables?: DocumentTable[];
+  figures?: DocumentFigure[]; // Embedded images with their captions
+  language?: string; // BCP 47 code detected from the text, e.g. "en" or "ja"
   metadata?: {
     title?: string;
     author?: string;
     subject?: string;
+    language?: string; // As declared by the document, which may be wrong
   };
 }
 
+// Pages with fewer non-whitespace characters than this are treated as scanned
+const MIN_TEXT_LAYER_CHARS = 20;
+const OCR_RENDER_SCALE = 2;
+// Figures are stored as images, so only this many are kept per document
+const MAX_FIGURES = 40;
+
+export type ParseProgressCallback = (pagesParsed: number, totalPages: number) => void;
+
+export interface ParseOptions {
+  password?: string;
+  onProgress?: ParseProgressCallback;
+}
+
+/**
+ * Raised when a PDF is encrypted and the password is missing or wrong
+ */
+export class PDFPasswordError extends Error {
+  constructor(public reason: 'required' | 'incorrect') {
+    super(reason === 'required'
+      ? 'This PDF is password protected'
+      : 'The password for this PDF is incorrect');
+    this.name = 'PDFPasswordError';
+  }
+}
+
+interface PDFInfo {
+  Title?: string;
+  Author?: string;
+  Subject?: string;
+  Language?: string;
+}
+
 /**
- * Simulates PDF parsing for demo purposes
- * In production, implement actual PDF parsing using pdf-parse or PDF.js
- */
-export const parsePDF = async (file: File): Promise<ParsedPDF> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = async () => {
-      try {
-        // Simulate processing time
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        // For demo purposes, return sample text
-        // In production, use actual PDF parsing library
-        const sampleText = `
-          Introduction to Artificial Intelligence
-          
-          Artificial Intelligence (AI) refers to the simulation of human intelligence in machines 
-          that are programmed to think and learn like humans. The term may also be applied to any 
-          machine that exhibits traits associated with a human mind such as learning and problem-solving.
-          
-          Types of AI:
-          1. Narrow AI (Weak AI) - AI that is designed to perform a narrow task
-          2. General AI (Strong AI) - AI with generalized human cognitive abilities
-          3. Superintelligence - AI that surpasses human intelligence in all areas
-          
-          Applications of AI:
-          - Machine Learning and Data Analytics
-          - Natural Language Processing
-          - Computer Vision and Image Recognition
-          - Robotics and Automation
-          - Expert Systems and Decision Support
-          
-          Key Concepts:
-          Machine Learning is a subset of AI that provides systems the ability to automatically 
-          learn and improve from experience without being explicitly programmed. Deep Learning is 
-          a subset of machine learning that uses neural networks with multiple layers.
-          
-          Neural Networks are computing systems inspired by biological neural networks. They consist 
-          of interconnected nodes (neurons) that process information using a connectionist approach.
-          
-          Natural Language Processing (NLP) is a branch of AI that helps computers understand, 
-          interpret and manipulate human language. It bridges the gap between human communication 
-          and computer understanding.
-          
-          Computer Vision enables machines to interpret and make decisions based on visual data. 
-          It involves methods for acquiring, processing, analyzing and understanding digital images.
-          
-          Conclusion:
-          AI continues to evolve and transform various industries. Understanding its fundamentals 
-          is crucial for anyone working in technology today. The future of AI holds immense 
-          potential for solving complex problems and improving human life.
-        `;
-        
-        const wordCount = sampleText.trim().split(/\s+/).length;
-        
-        const parsedPDF: ParsedPDF = {
-          text: sampleText.trim(),
-          pages: Math.ceil(wordCount / 300), // Estimate pages
-          wordCount,
-          metadata: {
-            title: file.name.replace('.pdf', ''),
-            author: 'Unknown',
-            subject: 'Educational Content'
+ * Parses a PDF file and extracts the text of every page along with its metadata.
+ * Pages without a usable text layer are rendered and run through OCR.
+ */
+export const parsePDF = async (
+  file: File,
+  options: ParseOptions = {}
+): Promise<ParsedPDF> => {
+  const { password, onProgress } = options;
+
+  let data: ArrayBuffer;
+  try {
+    data = await file.arrayBuffer();
+  } catch (error) {
+    throw new Error('Failed to read file');
+  }
+
+  try {
+    const pdf = await pdfjsLib.getDocument({
+      data,
+      password,
+      // Workers have no DOM, so canvases for rendering must be offscreen
+      ...(typeof document === 'undefined' ? { CanvasFactory: OffscreenCanvasFactory } : {})
+    }).promise;
+    onProgress?.(0, pdf.numPages);
+
+    try {
+      const pageTexts: string[] = [];
+      const linesByPage: TextLine[][] = [];
+      const tables: DocumentTable[] = [];
+      const figures: DocumentFigure[] = [];
+      const ocrConfidences = new Map<number, number>();
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const items = orderTextItems(content.items as TextItem[], page.view);
+        let pageText = joinTextItems(items);
+        let lines = collectTextLines(items);
+
+        if (!hasUsableTextLayer(pageText)) {
+          try {
+            const ocr = await recognizeImage(await renderPage(page));
+            if (hasUsableTextLayer(ocr.text)) {
+              pageText = ocr.text;
+              lines = [];
+              ocrConfidences.set(pageNumber, ocr.confidence);
+            }
+          } catch (error) {
+            console.warn(`OCR failed for page ${pageNumber}:`, error);
+          }
+        }
+
+        pageTexts.push(pageText);
+        linesByPage.push(lines);
+        tables.push(...detectTables(items, pageNumber));
+
+        // Scanned pages are one big image, not figures
+        if (figures.length < MAX_FIGURES && !ocrConfidences.has(pageNumber)) {
+          try {
+            const regions = await findFigureRegions(page, items);
+            figures.push(...await renderFigures(page, regions.slice(0, MAX_FIGURES - figures.length), pageNumber));
+          } catch (error) {
+            console.warn(`Figure extraction failed for page ${pageNumber}:`, error);
           }
-        };
-        
-        resolve(parsedPDF);
-      } catch (error) {
-        reject(new Error('Failed to parse PDF: ' + (error as Error).message));
+        }
+        page.cleanup();
+        onProgress?.(pageNumber, pdf.numPages);
       }
-    };
-    
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'));
-    };
-    
-    reader.readAsArrayBuffer(file);
+
+      const { text, pages: builtPages } = buildPageModel(normalizePageTexts(pageTexts));
+      const pages = builtPages.map(page =>
+        ocrConfidences.has(page.pageNumber)
+          ? { ...page, fromOCR: true, ocrConfidence: ocrConfidences.get(page.pageNumber) }
+          : page
+      );
+      const { info } = await pdf.getMetadata();
+      const pdfInfo = (info || {}) as PDFInfo;
+      const sections = await readSections(pdf, pages, linesByPage, text.length);
+
+      return {
+        text,
+        pages: pdf.numPages,
+        pageTexts: pages,
+        wordCount: countWords(text),
+        format: 'pdf',
+        ...(sections.length > 0 ? { sections } : {}),
+        ...(tables.length > 0 ? { tables } : {}),
+        ...(figures.length > 0 ? { figures } : {}),
+        metadata: {
+          title: cleanInfoField(pdfInfo.Title) || file.name.replace(/\.pdf$/i, ''),
+          author: cleanInfoField(pdfInfo.Author),
+          subject: cleanInfoField(pdfInfo.Subject),
+          language: cleanInfoField(pdfInfo.Language)
+        }
+      };
+    } finally {
+      await pdf.destroy();
+      await terminateOCR();
+    }
+  } catch (error) {
+    if ((error as Error)?.name === 'PasswordException') {
+      const code = (error as Error & { code?: number }).code;
+      throw new PDFPasswordError(
+        code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required'
+      );
+    }
+    throw new Error('Failed to parse PDF: ' + (error as Error).message);
+  }
+};
+
+/**
+ * Joins page texts into the full document text, recording each page's offsets
+ */
+export const buildPageModel = (pageTexts: string[]): { text: string; pages: PageText[] } => {
+  const pages: PageText[] = [];
+  let text = '';
+
+  pageTexts.forEach((pageText, index) => {
+    if (index > 0) {
+      text += '\n\n';
+    }
+    pages.push({
+      pageNumber: index + 1,
+      text: pageText,
+      startIndex: text.length,
+      endIndex: text.length + pageText.length
+    });
+    text += pageText;
+  });
+
+  return { text, pages };
+};
+
+/**
+ * Narrows a parsed document to the given pages, keeping their original page numbers
+ */
+export const extractPages = (parsed: ParsedPDF, pageNumbers: number[]): ParsedPDF => {
+  const selected = new Set(pageNumbers);
+  const pageTexts: PageText[] = [];
+  let text = '';
+
+  parsed.pageTexts
+    .filter(page => selected.has(page.pageNumber))
+    .forEach(page => {
+      if (pageTexts.length > 0) {
+        text += '\n\n';
+      }
+      pageTexts.push({ ...page, startIndex: text.length, endIndex: text.length + page.text.length });
+      text += page.text;
+    });
+
+  return {
+    ...parsed,
+    text,
+    pageTexts,
+    wordCount: countWords(text, parsed.language),
+    blocks: parsed.blocks?.filter(block => selected.has(block.pageNumber)),
+    tables: parsed.tables?.filter(table => selected.has(table.pageNumber)),
+    figures: parsed.figures?.filter(figure => selected.has(figure.pageNumber))
+  };
+};
+
+/**
+ * Narrows a parsed document to the given character ranges of its full text.
+ * Pages are cut to the part inside each range and keep their original page numbers.
+ */
+export const extractTextRanges = (
+  parsed: ParsedPDF,
+  ranges: { startIndex: number; endIndex: number }[]
+): ParsedPDF => {
+  const pageTexts: PageText[] = [];
+  let text = '';
+
+  ranges.forEach(range => {
+    parsed.pageTexts
+      .filter(page => page.startIndex < range.endIndex && page.endIndex > range.startIndex)
+      .forEach(page => {
+        const pageText = page.text
+          .slice(Math.max(0, range.startIndex - page.startIndex), range.endIndex - page.startIndex)
+          .trim();
+        if (!pageText) return;
+
+        if (pageTexts.length > 0) {
+          text += '\n\n';
+        }
+        pageTexts.push({ ...page, text: pageText, startIndex: text.length, endIndex: text.length + pageText.length });
+        text += pageText;
+      });
+  });
+
+  const pageNumbers = new Set(pageTexts.map(page => page.pageNumber));
+  return {
+    ...parsed,
+    text,
+    pageTexts,
+    wordCount: countWords(text, parsed.language),
+    blocks: parsed.blocks?.filter(block => pageNumbers.has(block.pageNumber)),
+    tables: parsed.tables?.filter(table => pageNumbers.has(table.pageNumber)),
+    figures: parsed.figures?.filter(figure => pageNumbers.has(figure.pageNumber))
+  };
+};
+
+/**
+ * Returns the page numbers overlapping a character range of the full text
+ */
+export const getPagesForRange = (
+  pages: PageText[],
+  startIndex: number,
+  endIndex: number
+): number[] => {
+  return pages
+    .filter(page => page.startIndex < endIndex && page.endIndex > startIndex)
+    .map(page => page.pageNumber);
+};
+
+/**
+ * Formats page numbers as a citation, e.g. "Page 4", "Pages 4–6, 9" or "Slide 14"
+ */
+export const formatPageNumbers = (pageNumbers: number[], unit: PageUnit = 'page'): string => {
+  const ranges = compressPageNumbers(pageNumbers).map(([start, end]) =>
+    start === end ? `${start}` : `${start}–${end}`
+  );
+
+  return `${getPageUnitLabel(unit, new Set(pageNumbers).size > 1)} ${ranges.join(', ')}`;
+};
+
+/**
+ * Parses a page range such as "1-5, 9, 12-20" into sorted page numbers.
+ * An empty range selects every page.
+ */
+export const parsePageRange = (
+  input: string,
+  totalPages: number
+): { pageNumbers: number[]; error?: string } => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { pageNumbers: Array.from({ length: totalPages }, (_, i) => i + 1) };
+  }
+
+  const pageNumbers = new Set<number>();
+  for (const part of trimmed.split(/\s*,\s*/).filter(Boolean)) {
+    const match = /^(\d+)(?:\s*[-–]\s*(\d+))?$/.exec(part);
+    if (!match) {
+      return { pageNumbers: [], error: `"${part}" is not a page or range like 12-20` };
+    }
+
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start > end) {
+      return { pageNumbers: [], error: `"${part}" should start with the lower page` };
+    }
+    if (start < 1 || end > totalPages) {
+      return { pageNumbers: [], error: `"${part}" is outside 1–${totalPages}` };
+    }
+    for (let page = start; page <= end; page++) {
+      pageNumbers.add(page);
+    }
+  }
+
+  return { pageNumbers: [...pageNumbers].sort((a, b) => a - b) };
+};
+
+/**
+ * Writes page numbers in canonical range form, e.g. "1-5,9,12-20"
+ */
+export const normalizePageRange = (pageNumbers: number[]): string => {
+  return compressPageNumbers(pageNumbers)
+    .map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`))
+    .join(',');
+};
+
+/**
+ * Writes page numbers as readable ranges, e.g. "4–9, 12"
+ */
+export const formatPageRanges = (pageNumbers: number[]): string => {
+  return compressPageNumbers(pageNumbers)
+    .map(([start, end]) => (start === end ? `${start}` : `${start}–${end}`))
+    .join(', ');
+};
+
+/**
+ * Groups page numbers into sorted runs of consecutive pages
+ */
+const compressPageNumbers = (pageNumbers: number[]): [number, number][] => {
+  const sorted = [...new Set(pageNumbers)].sort((a, b) => a - b);
+  const ranges: [number, number][] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) {
+      i++;
+    }
+    ranges.push([start, sorted[i]]);
+  }
+
+  return ranges;
+};
+
+/**
+ * Joins the text items of a page, keeping the line breaks reported by PDF.js
+ */
+const joinTextItems = (items: TextItem[]): string => {
+  let pageText = '';
+
+  items.forEach(item => {
+    if (typeof item.str !== 'string') return;
+    pageText += item.str;
+    if (item.hasEOL) {
+      pageText += '\n';
+    } else if (item.str && !/\s$/.test(item.str)) {
+      pageText += ' ';
+    }
   });
+
+  return pageText
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+};
+
+/**
+ * Builds the section tree from the PDF outline, inferring headings from font sizes
+ * when the document has no bookmarks
+ */
+const readSections = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pages: PageText[],
+  linesByPage: TextLine[][],
+  textLength: number
+): Promise<DocumentSection[]> => {
+  try {
+    let headings = await readPDFOutline(pdf, pages);
+    if (headings.length === 0) {
+      headings = inferHeadingsFromFontSize(linesByPage, pages);
+    }
+    return buildSectionTree(headings, textLength);
+  } catch (error) {
+    console.warn('Failed to read document sections:', error);
+    return [];
+  }
+};
+
+/**
+ * Canvas factory for PDF.js that creates OffscreenCanvas instances
+ */
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number): void {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }): void {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+/**
+ * Checks whether extracted page text has enough content to skip OCR
+ */
+export const hasUsableTextLayer = (text: string): boolean => {
+  return text.replace(/\s+/g, '').length >= MIN_TEXT_LAYER_CHARS;
+};
+
+/**
+ * Renders a page to a canvas for OCR, using OffscreenCanvas where available
+ */
+const renderPage = async (page: PDFPageProxy): Promise<HTMLCanvasElement | OffscreenCanvas> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const width = Math.ceil(viewport.width);
+  const height = Math.ceil(viewport.height);
+
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+};
+
+/**
+ * Normalizes a field from the PDF info dictionary, dropping empty values
+ */
+const cleanInfoField = (value?: string): string | undefined => {
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  return trimmed.length > 0 ? trimmed : undefined;
 };
 
 /**
@@ -107,9 +498,9 @@ export const validatePDF = (file: File): boolean => {
 };
 
 /**
- * Estimates reading time based on word count
+ * Estimates reading time in minutes from the word count, at the typical
+ * reading speed for the document's language
  */
-export const estimateReadingTime = (wordCount: number): number => {
-  const averageWPM = 200; // Words per minute
-  return Math.ceil(wordCount / averageWPM);
-};
\ No newline at end of file
+export const estimateReadingTime = (wordCount: number, language?: string): number => {
+  return Math.ceil(wordCount / getWordsPerMinute(language));
+};
@@ -0,0 +1,181 @@
+/**
+ * PPTX Parser Utility
+ * Extracts slide titles, bullet text and speaker notes from PowerPoint decks
+ */
+
+import type JSZip from 'jszip';
+import { loadZip, readXml, readRelationships, readCoreProperties, childElements } from './zipXml';
+import { buildPageModel, type ParsedPDF, type ParseProgressCallback } from './pdfParser';
+import { countWords } from './language';
+import { renderBlocksByPage, type DocumentBlock } from './documentStructure';
+
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NOTES_SLIDE_REL = '/notesSlide';
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+export interface SlideBullet {
+  level: number;
+  text: string;
+}
+
+export interface SlideContent {
+  slideNumber: number;
+  title?: string;
+  bullets: SlideBullet[];
+  notes?: string;
+}
+
+/**
+ * Parses a PPTX file into the same shape as a parsed PDF, with one page per slide.
+ * Progress is reported after each slide.
+ */
+export const parsePPTX = async (file: File, onProgress?: ParseProgressCallback): Promise<ParsedPDF> => {
+  const zip = await loadZip(file, 'PPTX');
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await readXml(zip, presentationPath);
+  if (!presentation) {
+    throw new Error('Failed to parse PPTX: ppt/presentation.xml is missing');
+  }
+
+  const relationships = await readRelationships(zip, presentationPath);
+  const slidePaths = Array.from(presentation.getElementsByTagNameNS(P_NS, 'sldId'))
+    .map(slideId => relationships.get(slideId.getAttributeNS(R_NS, 'id') || '')?.target)
+    .filter((path): path is string => !!path);
+
+  const slides: SlideContent[] = [];
+  for (let index = 0; index < slidePaths.length; index++) {
+    slides.push(await parseSlide(zip, slidePaths[index], index + 1));
+    onProgress?.(index + 1, slidePaths.length);
+  }
+
+  const blocks = slidesToBlocks(slides);
+  const pageTexts = renderBlocksByPage(blocks);
+  // Keep one page per slide even when trailing slides are empty
+  while (pageTexts.length < slides.length) pageTexts.push('');
+
+  const { text, pages } = buildPageModel(pageTexts);
+  const coreProps = await readCoreProperties(zip);
+
+  return {
+    text,
+    pages: slides.length,
+    pageTexts: pages,
+    wordCount: countWords(text),
+    format: 'pptx',
+    blocks,
+    slides,
+    metadata: {
+      ...coreProps,
+      title: coreProps.title || file.name.replace(/\.pptx$/i, '')
+    }
+  };
+};
+
+/**
+ * Reads one slide's title, bullets and speaker notes
+ */
+const parseSlide = async (zip: JSZip, slidePath: string, slideNumber: number): Promise<SlideContent> => {
+  const slide = await readXml(zip, slidePath);
+  const content: SlideContent = { slideNumber, bullets: [] };
+  if (!slide) return content;
+
+  Array.from(slide.getElementsByTagNameNS(P_NS, 'sp')).forEach(shape => {
+    const placeholderType = getPlaceholderType(shape);
+    const paragraphs = readShapeParagraphs(shape);
+
+    if ((placeholderType === 'title' || placeholderType === 'ctrTitle') && !content.title) {
+      content.title = paragraphs.map(paragraph => paragraph.text).join(' ');
+    } else if (placeholderType !== 'sldNum' && placeholderType !== 'dt' && placeholderType !== 'ftr') {
+      content.bullets.push(...paragraphs);
+    }
+  });
+
+  // Tables live in graphic frames; keep each row as a bullet
+  Array.from(slide.getElementsByTagNameNS(A_NS, 'tr')).forEach(row => {
+    const cells = Array.from(row.getElementsByTagNameNS(A_NS, 'tc'))
+      .map(cell => readParagraphs(cell).map(paragraph => paragraph.text).join(' '));
+    if (cells.some(cell => cell.length > 0)) {
+      content.bullets.push({ level: 0, text: cells.join(' | ') });
+    }
+  });
+
+  const relationships = await readRelationships(zip, slidePath);
+  const notesPath = Array.from(relationships.values()).find(rel => rel.type.endsWith(NOTES_SLIDE_REL))?.target;
+  if (notesPath) {
+    content.notes = await readNotes(zip, notesPath);
+  }
+
+  return content;
+};
+
+/**
+ * Reads the text of the body placeholder on a notes slide
+ */
+const readNotes = async (zip: JSZip, notesPath: string): Promise<string | undefined> => {
+  const notesSlide = await readXml(zip, notesPath);
+  if (!notesSlide) return undefined;
+
+  const notes = Array.from(notesSlide.getElementsByTagNameNS(P_NS, 'sp'))
+    .filter(shape => getPlaceholderType(shape) === 'body')
+    .flatMap(shape => readShapeParagraphs(shape).map(paragraph => paragraph.text))
+    .join('\n')
+    .trim();
+
+  return notes.length > 0 ? notes : undefined;
+};
+
+/**
+ * Returns the placeholder type of a shape ('body' when a placeholder has no type)
+ */
+const getPlaceholderType = (shape: Element): string | null => {
+  const placeholder = shape.getElementsByTagNameNS(P_NS, 'ph')[0];
+  if (!placeholder) return null;
+  return placeholder.getAttribute('type') || 'body';
+};
+
+const readShapeParagraphs = (shape: Element): SlideBullet[] => {
+  const textBody = shape.getElementsByTagNameNS(P_NS, 'txBody')[0];
+  return textBody ? readParagraphs(textBody) : [];
+};
+
+/**
+ * Reads DrawingML paragraphs with their indent levels
+ */
+const readParagraphs = (container: Element): SlideBullet[] => {
+  return Array.from(container.getElementsByTagNameNS(A_NS, 'p'))
+    .map(paragraph => {
+      const properties = childElements(paragraph).find(child => child.localName === 'pPr');
+      const text = Array.from(paragraph.getElementsByTagNameNS(A_NS, 't'))
+        .map(run => run.textContent || '')
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim();
+      return { level: Number(properties?.getAttribute('lvl') || 0), text };
+    })
+    .filter(paragraph => paragraph.text.length > 0);
+};
+
+/**
+ * Converts slides into document blocks so they share the structured text rendering
+ */
+const slidesToBlocks = (slides: SlideContent[]): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+
+  slides.forEach(slide => {
+    const pageNumber = slide.slideNumber;
+    if (slide.title) {
+      blocks.push({ type: 'heading', level: 1, text: slide.title, pageNumber });
+    }
+    slide.bullets.forEach(bullet => {
+      blocks.push({ type: 'list_item', level: bullet.level, ordered: false, text: bullet.text, pageNumber });
+    });
+    if (slide.notes) {
+      blocks.push({ type: 'paragraph', text: `Speaker notes: ${slide.notes}`, pageNumber });
+    }
+  });
+
+  return blocks;
+};
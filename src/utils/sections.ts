@@ -0,0 +1,126 @@
+/**
+ * Section Tree Utility
+ * Builds a nested chapter/section tree with text ranges from a flat list of headings
+ */
+
+import type { ParsedPDF } from './pdfParser';
+
+export interface SectionHeading {
+  title: string;
+  level: number; // 1 for top-level chapters
+  pageNumber: number;
+  startIndex: number; // Offset of the heading in ParsedPDF.text
+}
+
+export interface DocumentSection {
+  id: string;
+  title: string;
+  level: number;
+  pageNumber: number;
+  startIndex: number;
+  endIndex: number; // Where the next section at the same or a higher level starts
+  children: DocumentSection[];
+}
+
+/**
+ * Nests headings by level and gives each section the text range it covers
+ */
+export const buildSectionTree = (headings: SectionHeading[], textLength: number): DocumentSection[] => {
+  const ordered = [...headings].sort((a, b) => a.startIndex - b.startIndex);
+  const roots: DocumentSection[] = [];
+  const stack: DocumentSection[] = [];
+
+  ordered.forEach((heading, index) => {
+    const section: DocumentSection = {
+      id: `section-${index + 1}`,
+      title: heading.title,
+      level: heading.level,
+      pageNumber: heading.pageNumber,
+      startIndex: heading.startIndex,
+      endIndex: textLength,
+      children: []
+    };
+
+    // Close every open section that this heading ends
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop()!.endIndex = heading.startIndex;
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(section);
+    } else {
+      roots.push(section);
+    }
+    stack.push(section);
+  });
+
+  return roots;
+};
+
+/**
+ * Lists every section of the tree in document order
+ */
+export const flattenSections = (sections: DocumentSection[]): DocumentSection[] => {
+  return sections.flatMap(section => [section, ...flattenSections(section.children)]);
+};
+
+/**
+ * Returns the text ranges covered by the selected sections.
+ * A section contributes only the text before its first child, so unselected
+ * subsections stay out of the quiz.
+ */
+export const getSectionRanges = (
+  sections: DocumentSection[],
+  selectedIds: string[]
+): { startIndex: number; endIndex: number }[] => {
+  const selected = new Set(selectedIds);
+  const ranges: { startIndex: number; endIndex: number }[] = [];
+
+  flattenSections(sections)
+    .filter(section => selected.has(section.id))
+    .forEach(section => {
+      const endIndex = section.children.length > 0 ? section.children[0].startIndex : section.endIndex;
+      const previous = ranges[ranges.length - 1];
+      if (previous && previous.endIndex >= section.startIndex) {
+        previous.endIndex = Math.max(previous.endIndex, endIndex);
+      } else if (endIndex > section.startIndex) {
+        ranges.push({ startIndex: section.startIndex, endIndex });
+      }
+    });
+
+  return ranges;
+};
+
+/**
+ * Finds where each heading of a document starts in its text, from the PDF's
+ * section tree or the heading blocks of structured formats. Works on documents
+ * narrowed to some pages or sections: a heading whose page was left out is
+ * placed where the next included page starts, so the sections it opens still
+ * know their parent.
+ */
+export const locateHeadings = (parsed: ParsedPDF): SectionHeading[] => {
+  const candidates = parsed.sections?.length
+    ? flattenSections(parsed.sections).map(({ title, level, pageNumber }) => ({ title, level, pageNumber }))
+    : (parsed.blocks ?? []).flatMap(block =>
+        block.type === 'heading' ? [{ title: block.text, level: block.level, pageNumber: block.pageNumber }] : []
+      );
+  const searchFrom = new Map<number, number>(); // Page number to where the next heading search starts
+
+  return candidates
+    .map(({ title, level, pageNumber }) => {
+      const page = parsed.pageTexts.find(candidate => candidate.pageNumber === pageNumber);
+      if (!page) {
+        const nextPage = parsed.pageTexts.find(candidate => candidate.pageNumber > pageNumber);
+        return { title, level, pageNumber, startIndex: nextPage?.startIndex ?? parsed.text.length };
+      }
+
+      // Outline titles may differ from the page text in spacing and case
+      const words = title.trim().split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      const from = searchFrom.get(pageNumber) ?? 0;
+      const match = new RegExp(words.join('\\s+'), 'i').exec(page.text.slice(from));
+      const offset = match ? from + match.index : from;
+      searchFrom.set(pageNumber, match ? offset + match[0].length : from);
+      return { title, level, pageNumber, startIndex: page.startIndex + offset };
+    })
+    .sort((a, b) => a.startIndex - b.startIndex);
+};
@@ -0,0 +1,130 @@
+/**
+ * Table Detector Utility
+ * Finds tables on a PDF page from the positions of its text items
+ */
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { isTableCaption, type DocumentTable } from './documentStructure';
+
+interface Cell {
+  text: string;
+  left: number;
+  right: number;
+}
+
+interface Row {
+  y: number;
+  height: number;
+  cells: Cell[];
+}
+
+// Items further apart than this many line heights start a new cell
+const CELL_GAP = 1.2;
+const MIN_TABLE_ROWS = 3; // Header plus at least two data rows
+const MIN_TABLE_COLUMNS = 2;
+// Prose lines are long; table cells are short labels and values
+const MAX_AVERAGE_CELL_LENGTH = 30;
+
+/**
+ * Detects tables on a page: runs of at least three lines that split into the
+ * same number of cells, with each column's cells overlapping the one above.
+ * The first line becomes the headers; a "Table N" line just above or below
+ * becomes the caption.
+ */
+export const detectTables = (items: TextItem[], pageNumber: number): DocumentTable[] => {
+  const rows = groupRows(items);
+  const tables: DocumentTable[] = [];
+  let start = 0;
+
+  while (start < rows.length) {
+    let end = start + 1;
+    while (end < rows.length && continuesTable(rows[end - 1], rows[end])) {
+      end++;
+    }
+
+    const run = rows.slice(start, end);
+    if (isTable(run)) {
+      const caption = [rows[start - 1], rows[end]]
+        .map(row => row?.cells.map(cell => cell.text).join(' '))
+        .find(text => text !== undefined && isTableCaption(text));
+
+      tables.push({
+        id: `table-${pageNumber}-${tables.length + 1}`,
+        pageNumber,
+        caption,
+        headers: run[0].cells.map(cell => cell.text),
+        rows: run.slice(1).map(row => row.cells.map(cell => cell.text))
+      });
+    }
+    start = end;
+  }
+
+  return tables;
+};
+
+/**
+ * Groups text items into rows by baseline and splits each row into cells at wide gaps
+ */
+const groupRows = (items: TextItem[]): Row[] => {
+  const textItems = items
+    .filter(item => typeof item.str === 'string' && item.str.trim() && Array.isArray(item.transform))
+    .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+
+  const rows: { y: number; height: number; items: TextItem[] }[] = [];
+  textItems.forEach(item => {
+    const row = rows[rows.length - 1];
+    const y = item.transform[5];
+    if (row && Math.abs(row.y - y) <= Math.max(row.height, item.height) * 0.5) {
+      row.items.push(item);
+    } else {
+      rows.push({ y, height: item.height, items: [item] });
+    }
+  });
+
+  return rows.map(row => {
+    const cells: Cell[] = [];
+    row.items
+      .sort((a, b) => a.transform[4] - b.transform[4])
+      .forEach(item => {
+        const left = item.transform[4];
+        const right = left + item.width;
+        const cell = cells[cells.length - 1];
+        if (cell && left - cell.right <= row.height * CELL_GAP) {
+          cell.text = `${cell.text} ${item.str.trim()}`;
+          cell.right = Math.max(cell.right, right);
+        } else {
+          cells.push({ text: item.str.trim(), left, right });
+        }
+      });
+    return { y: row.y, height: row.height, cells };
+  });
+};
+
+/**
+ * Checks whether a row lines up cell for cell with the row above it
+ */
+const continuesTable = (above: Row, row: Row): boolean => {
+  if (row.cells.length < MIN_TABLE_COLUMNS || row.cells.length !== above.cells.length) {
+    return false;
+  }
+  // Rows of a table sit close together
+  if (above.y - row.y > Math.max(above.height, row.height) * 3) {
+    return false;
+  }
+  return row.cells.every((cell, index) => {
+    const other = above.cells[index];
+    return cell.left <= other.right && cell.right >= other.left;
+  });
+};
+
+/**
+ * Checks whether a run of aligned rows looks like a table rather than columns of prose
+ */
+const isTable = (rows: Row[]): boolean => {
+  if (rows.length < MIN_TABLE_ROWS || rows[0].cells.length < MIN_TABLE_COLUMNS) {
+    return false;
+  }
+  const cells = rows.flatMap(row => row.cells);
+  const averageLength = cells.reduce((sum, cell) => sum + cell.text.length, 0) / cells.length;
+  return averageLength <= MAX_AVERAGE_CELL_LENGTH;
+};
@@ -0,0 +1,157 @@
+/**
+ * Table Questions Utility
+ * Builds questions that read or compare values in a document's tables
+ */
+
+import type { DocumentTable, PageUnit } from './documentStructure';
+import type { QuizQuestion } from './modelClient';
+import { createQuestionId } from './hash';
+
+export interface QuizTableSource extends DocumentTable {
+  sourceId?: string; // Set when tables from several documents are combined
+  sourceName?: string;
+  pageUnit?: PageUnit;
+}
+
+// Rows that sum up the others, such as "Total" or "Average", would always be the highest
+const SUMMARY_ROW_PATTERN = /^(?:(?:grand|sub)\s*)?(?:totals?|sum|average|avg\.?|mean)\b/i;
+
+interface NumericColumn {
+  index: number;
+  values: { label: string; value: number; text: string }[];
+}
+
+/**
+ * Generates up to `count` questions from tables that have a label column and
+ * at least one numeric column. Each question carries its table so it can be shown.
+ */
+export const generateTableQuestions = (
+  tables: QuizTableSource[],
+  count: number,
+  questionTypes: ('mcq' | 'true_false')[],
+  includeExplanations: boolean
+): QuizQuestion[] => {
+  const candidates = tables.flatMap(table =>
+    findNumericColumns(table).flatMap(column => buildQuestions(table, column, questionTypes))
+  );
+
+  return shuffle(candidates)
+    .slice(0, count)
+    .map(question => ({
+      ...question,
+      id: createQuestionId(question),
+      explanation: includeExplanations ? question.explanation : undefined
+    }));
+};
+
+/**
+ * Parses a table cell such as "1,234", "$3.50" or "12%" as a number
+ */
+export const parseNumericCell = (cell: string): number | null => {
+  const match = /^\(?[-+−]?\s*[$€£¥]?\s*(\d[\d,\s]*(?:\.\d+)?)\s*%?\)?$/.exec(cell.trim());
+  if (!match) return null;
+
+  const value = Number(match[1].replace(/[,\s]/g, ''));
+  const isNegative = /^\(|^[-−]/.test(cell.trim());
+  return Number.isFinite(value) ? (isNegative ? -value : value) : null;
+};
+
+/**
+ * Finds columns (other than the first, which labels the rows) whose cells are all
+ * numbers. Summary rows are left out.
+ */
+const findNumericColumns = (table: DocumentTable): NumericColumn[] => {
+  const labelled = table.rows.filter(row => row[0]?.trim() && !SUMMARY_ROW_PATTERN.test(row[0].trim()));
+  if (labelled.length < 3) return [];
+
+  const columns: NumericColumn[] = [];
+  for (let index = 1; index < table.headers.length; index++) {
+    const values = labelled.map(row => ({
+      label: row[0].trim(),
+      value: parseNumericCell(row[index] ?? ''),
+      text: (row[index] ?? '').trim()
+    }));
+    if (values.every(entry => entry.value !== null)) {
+      columns.push({ index, values: values as NumericColumn['values'] });
+    }
+  }
+  return columns;
+};
+
+/**
+ * Builds "highest value", "read a value" and "compare two rows" questions for one column
+ */
+const buildQuestions = (
+  table: QuizTableSource,
+  column: NumericColumn,
+  questionTypes: ('mcq' | 'true_false')[]
+): Omit<QuizQuestion, 'id'>[] => {
+  const rowName = toPhrase(table.headers[0]?.trim() || 'row');
+  const columnName = toPhrase(table.headers[column.index]?.trim() || 'value');
+  const sorted = [...column.values].sort((a, b) => b.value - a.value);
+  const highest = sorted[0];
+  const base = {
+    difficulty: 'medium' as const,
+    topic: table.caption || 'Table data',
+    table,
+    pageNumbers: [table.pageNumber],
+    pageUnit: table.pageUnit,
+    sourceId: table.sourceId,
+    sourceName: table.sourceName
+  };
+  const questions: Omit<QuizQuestion, 'id'>[] = [];
+
+  if (questionTypes.includes('mcq') && highest.value > sorted[1].value) {
+    questions.push({
+      ...base,
+      type: 'mcq',
+      question: `According to the table, which ${rowName} has the highest ${columnName}?`,
+      options: shuffle([highest, ...shuffle(sorted.slice(1)).slice(0, 3)].map(entry => entry.label)),
+      correct_answer: highest.label,
+      explanation: `${highest.label} has the highest ${columnName} (${highest.text}).`
+    });
+  }
+
+  const target = column.values[Math.floor(Math.random() * column.values.length)];
+  const distractors = [...new Set(column.values.map(entry => entry.text))].filter(text => text !== target.text);
+  if (questionTypes.includes('mcq') && distractors.length >= 2) {
+    questions.push({
+      ...base,
+      type: 'mcq',
+      question: `According to the table, what is the ${columnName} for ${target.label}?`,
+      options: shuffle([target.text, ...shuffle(distractors).slice(0, 3)]),
+      correct_answer: target.text,
+      explanation: `The table lists ${target.text} as the ${columnName} for ${target.label}.`
+    });
+  }
+
+  const [first, second] = shuffle(column.values).slice(0, 2);
+  if (questionTypes.includes('true_false') && first.value !== second.value) {
+    const isHigher = first.value > second.value;
+    questions.push({
+      ...base,
+      type: 'true_false',
+      question: `According to the table, ${first.label} has a higher ${columnName} than ${second.label}.`,
+      correct_answer: isHigher,
+      explanation: `${isHigher ? 'True' : 'False'}. ${first.label} has ${first.text} and ${second.label} has ${second.text}.`
+    });
+  }
+
+  return questions;
+};
+
+/**
+ * Lowercases a header for use mid-sentence, leaving acronyms and units like "($M)" alone
+ */
+const toPhrase = (header: string): string => {
+  const firstWord = header.split(/\s+/)[0];
+  const isAcronym = firstWord.length > 1 && firstWord === firstWord.toUpperCase();
+  return isAcronym ? header : header.charAt(0).toLowerCase() + header.slice(1);
+};
+
+/**
+ * Returns a shuffled copy of an array
+ */
+export const shuffle = <T>(items: T[]): T[] => {
+  return [...items].sort(() => Math.random() - 0.5);
+};
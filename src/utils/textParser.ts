@@ -0,0 +1,41 @@
+/**
+ * Plain Text Parser Utility
+ * Turns pasted text or .txt files into the common parsed document shape
+ */
+
+import { buildPageModel, type ParsedPDF } from './pdfParser';
+import { countWords, detectLanguage } from './language';
+import { renderBlocksByPage, type DocumentBlock } from './documentStructure';
+
+/**
+ * Parses plain text, treating blank lines as paragraph breaks
+ */
+export const parsePlainText = (source: string, title: string): ParsedPDF => {
+  const blocks: DocumentBlock[] = source
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/[ \t]+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => ({ type: 'paragraph', text: paragraph, pageNumber: 1 }));
+
+  const { text, pages } = buildPageModel(renderBlocksByPage(blocks));
+  const language = detectLanguage(text);
+
+  return {
+    text,
+    pages: pages.length,
+    pageTexts: pages,
+    wordCount: countWords(text, language),
+    format: 'text',
+    language,
+    blocks,
+    metadata: { title }
+  };
+};
+
+/**
+ * Parses a .txt file
+ */
+export const parseTextFile = async (file: File): Promise<ParsedPDF> => {
+  return parsePlainText(await file.text(), file.name.replace(/\.txt$/i, ''));
+};
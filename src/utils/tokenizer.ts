@@ -0,0 +1,90 @@
+/**
+ * Tokenizer Utility
+ * Counts model tokens so chunks fit a model's prompt budget. Each model gets an
+ * estimator tuned to its vocabulary; exact tokenizers can be registered in their place.
+ */
+
+export interface Tokenizer {
+  id: string; // Model the tokenizer belongs to, or "estimate" for the default
+  countTokens: (text: string) => number;
+}
+
+export const DEFAULT_TOKENIZER_ID = 'estimate';
+
+// Characters written without spaces, which tokenizers split far more finely than words
+const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const TOKEN_PIECE_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|\p{L}+|\p{N}+|[^\s\p{L}\p{N}]/gu;
+const DIGITS_PER_TOKEN = 3;
+
+/**
+ * Builds a tokenizer that estimates tokens from how many characters one token
+ * covers in alphabetic text and in CJK text
+ */
+export const createEstimatingTokenizer = (
+  id: string,
+  lettersPerToken: number,
+  cjkCharactersPerToken: number
+): Tokenizer => ({
+  id,
+  countTokens: (text: string): number => {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(TOKEN_PIECE_PATTERN)) {
+      if (CJK_CHARACTER.test(piece)) {
+        tokens += 1 / cjkCharactersPerToken;
+      } else if (/^\p{L}/u.test(piece)) {
+        tokens += Math.max(1, Math.round(piece.length / lettersPerToken));
+      } else if (/^\p{N}/u.test(piece)) {
+        tokens += Math.ceil(piece.length / DIGITS_PER_TOKEN);
+      } else {
+        tokens += 1; // Punctuation and symbols
+      }
+    }
+    return Math.ceil(tokens);
+  }
+});
+
+const tokenizers = new Map<string, Tokenizer>([
+  [DEFAULT_TOKENIZER_ID, createEstimatingTokenizer(DEFAULT_TOKENIZER_ID, 4, 1)],
+  // SentencePiece with a large multilingual vocabulary
+  ['gemini-1.5-flash', createEstimatingTokenizer('gemini-1.5-flash', 4, 1.5)],
+  // Byte-level BPE with a small, mostly English vocabulary
+  ['hugging-face-fallback', createEstimatingTokenizer('hugging-face-fallback', 3.5, 0.7)]
+]);
+
+/**
+ * Returns the tokenizer registered for a model, or the default estimator
+ */
+export const getTokenizer = (id?: string): Tokenizer => {
+  return tokenizers.get(id ?? DEFAULT_TOKENIZER_ID) ?? tokenizers.get(DEFAULT_TOKENIZER_ID)!;
+};
+
+/**
+ * Registers a tokenizer for its model, replacing any estimator
+ */
+export const registerTokenizer = (tokenizer: Tokenizer): void => {
+  tokenizers.set(tokenizer.id, tokenizer);
+};
+
+/**
+ * Returns the longest prefix length of the text that fits the token limit,
+ * ending at a space where one is available
+ */
+export const findTokenLimitEnd = (tokenizer: Tokenizer, text: string, maxTokens: number): number => {
+  if (tokenizer.countTokens(text) <= maxTokens) {
+    return text.length;
+  }
+
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (tokenizer.countTokens(text.slice(0, middle)) <= maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  const lastSpace = text.slice(0, low).search(/\s\S*$/);
+  return lastSpace > 0 ? lastSpace : low;
+};
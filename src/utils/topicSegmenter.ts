@@ -0,0 +1,113 @@
+/**
+ * Topic Segmenter Utility
+ * Finds where the topic of a text shifts, TextTiling-style: adjacent windows of
+ * sentences are compared by TF-IDF similarity and cuts go where it dips deepest
+ */
+
+import { extractContentTerms, findSentenceEnds } from './language';
+
+export interface TopicSegmentationOptions {
+  windowSentences?: number; // Sentences compared on each side of a gap
+  minSegmentSentences?: number; // Fewest sentences between two cuts
+}
+
+type TermVector = Map<string, number>;
+
+/**
+ * Returns the offsets where a new topic starts, in text order. Each offset is
+ * the start of a sentence. Texts too short to compare windows have no cuts.
+ */
+export const findTopicBoundaries = (
+  text: string,
+  language?: string,
+  options: TopicSegmentationOptions = {}
+): number[] => {
+  const { windowSentences = 3, minSegmentSentences = 3 } = options;
+
+  const sentenceEnds = findSentenceEnds(text, language).filter(end => end < text.length);
+  const sentenceStarts = [0, ...sentenceEnds];
+  if (sentenceStarts.length < windowSentences * 2) {
+    return [];
+  }
+
+  const sentenceTerms = sentenceStarts.map((start, index) =>
+    extractContentTerms(text.slice(start, sentenceStarts[index + 1] ?? text.length), language)
+  );
+  const vectors = weighTerms(sentenceTerms);
+
+  // similarities[gap] compares the sentences before sentence `gap` with those from it on
+  const similarities = sentenceStarts.map((_, gap) => {
+    if (gap === 0) return 1;
+    const before = sumVectors(vectors.slice(Math.max(0, gap - windowSentences), gap));
+    const after = sumVectors(vectors.slice(gap, gap + windowSentences));
+    return cosineSimilarity(before, after);
+  });
+
+  const depths = similarities.map((similarity, gap) => (gap === 0 ? 0 : depthScore(similarities, gap)));
+  const scored = depths.slice(1);
+  const mean = scored.reduce((sum, depth) => sum + depth, 0) / scored.length;
+  const deviation = Math.sqrt(scored.reduce((sum, depth) => sum + (depth - mean) ** 2, 0) / scored.length);
+  // TextTiling's cutoff: dips deeper than the mean less half a standard deviation
+  const cutoff = Math.max(mean - deviation / 2, Number.EPSILON);
+
+  const cuts: number[] = [];
+  depths
+    .map((depth, gap) => ({ depth, gap }))
+    .filter(({ depth, gap }) =>
+      gap >= minSegmentSentences && gap <= sentenceStarts.length - minSegmentSentences && depth > cutoff
+    )
+    .sort((a, b) => b.depth - a.depth)
+    .forEach(({ gap }) => {
+      if (cuts.every(cut => Math.abs(cut - gap) >= minSegmentSentences)) {
+        cuts.push(gap);
+      }
+    });
+
+  return cuts.sort((a, b) => a - b).map(gap => sentenceStarts[gap]);
+};
+
+/**
+ * Turns each sentence's terms into a TF-IDF vector, treating sentences as the documents
+ */
+const weighTerms = (sentenceTerms: string[][]): TermVector[] => {
+  const documentFrequency = new Map<string, number>();
+  sentenceTerms.forEach(terms => {
+    new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  });
+
+  return sentenceTerms.map(terms => {
+    const vector: TermVector = new Map();
+    terms.forEach(term => {
+      const idf = Math.log(sentenceTerms.length / (documentFrequency.get(term) ?? 1));
+      vector.set(term, (vector.get(term) ?? 0) + idf);
+    });
+    return vector;
+  });
+};
+
+const sumVectors = (vectors: TermVector[]): TermVector => {
+  const sum: TermVector = new Map();
+  vectors.forEach(vector => vector.forEach((weight, term) => sum.set(term, (sum.get(term) ?? 0) + weight)));
+  return sum;
+};
+
+const cosineSimilarity = (a: TermVector, b: TermVector): number => {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) ?? 0);
+  });
+  const norm = (vector: TermVector) => Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+};
+
+/**
+ * How far similarity dips at a gap below the highest points on either side of it
+ */
+const depthScore = (similarities: number[], gap: number): number => {
+  let left = gap;
+  while (left > 1 && similarities[left - 1] >= similarities[left]) left--;
+  let right = gap;
+  while (right < similarities.length - 1 && similarities[right + 1] >= similarities[right]) right++;
+  return similarities[left] + similarities[right] - 2 * similarities[gap];
+};
@@ -0,0 +1,111 @@
+/**
+ * Zip XML Utility
+ * Helpers for reading zip-packaged XML documents (DOCX, PPTX, EPUB) in any thread
+ */
+
+import JSZip from 'jszip';
+import { DOMParser } from '@xmldom/xmldom';
+
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+
+export interface Relationship {
+  type: string;
+  target: string; // Resolved path inside the package
+}
+
+/**
+ * Opens a zip package from a file
+ */
+export const loadZip = async (file: File, formatName: string): Promise<JSZip> => {
+  try {
+    return await JSZip.loadAsync(await file.arrayBuffer());
+  } catch (error) {
+    throw new Error(`Failed to read ${formatName} file: ` + (error as Error).message);
+  }
+};
+
+/**
+ * Parses an XML string into a DOM document
+ */
+export const parseXml = (
+  xml: string,
+  mimeType: 'text/xml' | 'application/xhtml+xml' = 'text/xml'
+): Document => {
+  // Real-world markup is often sloppy; recoverable problems should not flood the console
+  return new DOMParser({ errorHandler: { warning: () => undefined } }).parseFromString(xml, mimeType);
+};
+
+/**
+ * Reads and parses an optional XML part of the package
+ */
+export const readXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const xml = await zip.file(path)?.async('string');
+  return xml ? parseXml(xml) : null;
+};
+
+/**
+ * Reads the relationships of a package part, keyed by relationship ID
+ */
+export const readRelationships = async (zip: JSZip, partPath: string): Promise<Map<string, Relationship>> => {
+  const slash = partPath.lastIndexOf('/');
+  const directory = partPath.substring(0, slash + 1);
+  const relsPath = `${directory}_rels/${partPath.substring(slash + 1)}.rels`;
+  const relationships = new Map<string, Relationship>();
+
+  const rels = await readXml(zip, relsPath);
+  if (!rels) return relationships;
+
+  Array.from(rels.getElementsByTagNameNS(PACKAGE_RELATIONSHIPS_NS, 'Relationship')).forEach(rel => {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (!id || !target || rel.getAttribute('TargetMode') === 'External') return;
+
+    relationships.set(id, {
+      type: rel.getAttribute('Type') || '',
+      target: resolvePath(directory, target)
+    });
+  });
+
+  return relationships;
+};
+
+/**
+ * Reads title, author and subject from the Office core properties (docProps/core.xml)
+ */
+export const readCoreProperties = async (
+  zip: JSZip
+): Promise<{ title?: string; author?: string; subject?: string; language?: string }> => {
+  const coreProps = await readXml(zip, 'docProps/core.xml');
+  const read = (name: string): string | undefined => {
+    const value = coreProps?.getElementsByTagNameNS(DC_NS, name)[0]?.textContent?.trim();
+    return value ? value : undefined;
+  };
+
+  return { title: read('title'), author: read('creator'), subject: read('subject'), language: read('language') };
+};
+
+/**
+ * Resolves a relative package path against a directory
+ */
+export const resolvePath = (directory: string, target: string): string => {
+  const segments = (target.startsWith('/') ? target.substring(1) : directory + target).split('/');
+  const resolved: string[] = [];
+
+  segments.forEach(segment => {
+    if (segment === '..') {
+      resolved.pop();
+    } else if (segment !== '.' && segment !== '') {
+      resolved.push(segment);
+    }
+  });
+
+  return resolved.join('/');
+};
+
+/**
+ * Returns the element children of a node
+ */
+export const childElements = (node: Element): Element[] => {
+  return Array.from(node.childNodes).filter((child): child is Element => child.nodeType === 1);
+};
@@ -0,0 +1,53 @@
+/**
+ * Document Worker
+ * Runs document parsing, analysis and text chunking off the main thread, reporting progress as it goes
+ */
+
+import { PDFPasswordError } from '@/utils/pdfParser';
+import { parseDocumentFile } from '@/utils/documentParser';
+import { chunkText } from '@/utils/chunker';
+import { analyzeDocument } from '@/utils/documentSources';
+import type { DocumentWorkerRequest, DocumentWorkerResponse } from '@/utils/documentProcessor';
+
+const respond = (message: DocumentWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<DocumentWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'parse') {
+      // Reported before the page count is known, as some formats only report once done
+      respond({ id: request.id, type: 'progress', progress: { stage: 'parsing', pagesParsed: 0, totalPages: 0 } });
+      const parsed = await parseDocumentFile(request.file, {
+        password: request.password,
+        onProgress: (pagesParsed, totalPages) => {
+          respond({ id: request.id, type: 'progress', progress: { stage: 'parsing', pagesParsed, totalPages } });
+        }
+      });
+      respond({ id: request.id, type: 'result', result: { parsed, ...analyzeDocument(parsed) } });
+    } else if (request.type === 'analyze') {
+      respond({ id: request.id, type: 'result', result: analyzeDocument(request.parsed) });
+    } else if (request.type === 'chunk') {
+      const result = chunkText(request.text, {
+        ...request.options,
+        onProgress: (chunksBuilt, processedChars, totalChars) => {
+          respond({
+            id: request.id,
+            type: 'progress',
+            progress: { stage: 'chunking', chunksBuilt, processedChars, totalChars }
+          });
+        }
+      }, request.pages);
+      respond({ id: request.id, type: 'result', result });
+    }
+  } catch (error) {
+    respond({
+      id: request.id,
+      type: 'error',
+      message: (error as Error).message,
+      passwordReason: error instanceof PDFPasswordError ? error.reason : undefined
+    });
+  }
+};